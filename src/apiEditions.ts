@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { EditionTagged } from './vectricApi';
+import { Node, Expression, Block, childNodes } from './luaParser';
+import { ScopeTree, resolveName } from './luaScope';
+
+// ==================== Product Editions ====================
+//
+// Some APIs exist only in some Vectric products, e.g. the component
+// functions in Aspire. Entries list those products in "editions", and the
+// vectric.targetProduct setting names the product a gadget must run in.
+// Aspire-only calls are fine in any gadget as long as they only run inside
+// Aspire:
+//
+//     if IsAspire() then
+//         local height = GetTransparentHeight()
+//     end
+
+export const PRODUCTS = ['Aspire', 'VCarve Pro', 'Cut2D', 'PhotoVCarve'];
+
+const PRODUCT_SETTING = 'targetProduct';
+
+/**
+ * Check whether an API exists in a product (in any product when null)
+ */
+export function isAvailableFor(entry: EditionTagged, product: string | null): boolean {
+    return !product || !entry.editions || entry.editions.includes(product);
+}
+
+/**
+ * "Aspire only", "Aspire, VCarve Pro only"; empty when every product has it
+ */
+export function describeEditions(entry: EditionTagged): string {
+    return entry.editions && entry.editions.length > 0 ? `${entry.editions.join(', ')} only` : '';
+}
+
+/**
+ * The product a document's gadget targets, from the setting
+ */
+export function targetProduct(document: vscode.TextDocument): string | null {
+    const configured = vscode.workspace.getConfiguration('vectric', document.uri).get<string>(PRODUCT_SETTING, '');
+    return configured || null;
+}
+
+// ==================== IsAspire() Guards ====================
+
+/**
+ * IsAspire(), job.IsAspire, or a variable assigned from one of them
+ */
+function isAspireTest(expression: Expression, scopes: ScopeTree, depth = 0): boolean {
+    switch (expression.type) {
+        case 'CallExpression':
+            return expression.base.type === 'Identifier' && expression.base.name === 'IsAspire';
+        case 'MemberExpression':
+        case 'MethodCallExpression':
+            return expression.identifier.name === 'IsAspire';
+        case 'ParenExpression':
+            return isAspireTest(expression.expression, scopes, depth);
+        case 'Identifier': {
+            const symbol = resolveName(scopes, expression.name, expression.start);
+            return !!symbol && depth < 3 && symbol.assignments.some(a => a.value !== null && isAspireTest(a.value, scopes, depth + 1));
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * When this condition is true, the program is Aspire
+ */
+function assertsAspire(condition: Expression, scopes: ScopeTree): boolean {
+    if (condition.type === 'BinaryExpression' && condition.operator === 'and') {
+        return assertsAspire(condition.left, scopes) || assertsAspire(condition.right, scopes);
+    }
+    if (condition.type === 'ParenExpression') {
+        return assertsAspire(condition.expression, scopes);
+    }
+    return isAspireTest(condition, scopes);
+}
+
+/**
+ * When this condition is false, the program is Aspire
+ */
+function deniesAspire(condition: Expression, scopes: ScopeTree): boolean {
+    if (condition.type === 'BinaryExpression' && condition.operator === 'or') {
+        return deniesAspire(condition.left, scopes) || deniesAspire(condition.right, scopes);
+    }
+    if (condition.type === 'ParenExpression') {
+        return deniesAspire(condition.expression, scopes);
+    }
+    return condition.type === 'UnaryExpression' && condition.operator === 'not' && assertsAspire(condition.argument, scopes);
+}
+
+/**
+ * A block that never falls through: it ends with return, break or error()
+ */
+function exits(block: Block): boolean {
+    const last = block.body[block.body.length - 1];
+    if (!last) {
+        return false;
+    }
+    if (last.type === 'ReturnStatement' || last.type === 'BreakStatement') {
+        return true;
+    }
+    return last.type === 'CallStatement' && last.expression.type === 'CallExpression' &&
+        last.expression.base.type === 'Identifier' && last.expression.base.name === 'error';
+}
+
+/**
+ * Check whether reaching a child of a node means the program is Aspire
+ */
+function guardsChild(parent: Node, child: Node, scopes: ScopeTree): boolean {
+    switch (parent.type) {
+        case 'IfStatement': {
+            // Reaching a later clause means every earlier condition was false
+            const index = parent.clauses.findIndex(c => c === child);
+            return parent.clauses.slice(0, index).some(c => c.condition !== null && deniesAspire(c.condition, scopes));
+        }
+        case 'IfClause':
+        case 'ElseifClause':
+            return child === parent.body && parent.condition !== null && assertsAspire(parent.condition, scopes);
+        case 'BinaryExpression':
+            if (child !== parent.right) {
+                return false;
+            }
+            return (parent.operator === 'and' && assertsAspire(parent.left, scopes)) ||
+                (parent.operator === 'or' && deniesAspire(parent.left, scopes));
+        case 'Block': {
+            // if not IsAspire() then return end
+            const earlier = parent.body.slice(0, parent.body.findIndex(s => s === child));
+            return earlier.some(statement => {
+                const first = statement.type === 'IfStatement' ? statement.clauses[0] : null;
+                return !!first && first.condition !== null && deniesAspire(first.condition, scopes) && exits(first.body);
+            });
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check whether the code at an offset only runs inside Aspire: within
+ * `if IsAspire() then`, the else of `if not IsAspire() then`, the right side
+ * of `IsAspire() and ...`, or after `if not IsAspire() then return end`
+ */
+export function isAspireGuarded(node: Node, scopes: ScopeTree, offset: number): boolean {
+    const child = childNodes(node).find(c => c.start <= offset && offset < c.end);
+    if (!child) {
+        return false;
+    }
+    return guardsChild(node, child, scopes) || isAspireGuarded(child, scopes, offset);
+}
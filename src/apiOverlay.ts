@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiClassOverlay, ApiFunctionOverlay } from './vectricApi';
+import { ApiProblem } from './apiValidation';
+
+// ==================== API Overlays ====================
+//
+// Extra ClassCategory / GlobalCategory files that extend or patch the bundled
+// API: every .json file in a workspace folder's .vectric-api/ folder, plus
+// the folders and files listed in the vectric.apiOverlays setting. Files are
+// applied in that order (settings first, so the workspace has the last word)
+// and reloaded whenever one of them is saved.
+
+export const OVERLAY_FOLDER = '.vectric-api';
+const OVERLAY_SETTING = 'apiOverlays';
+
+export interface ApiOverlay {
+    classes: ApiClassOverlay[];
+    functions: ApiFunctionOverlay[];
+    files: string[];            // Overlay files that were read
+    problems: ApiProblem[];
+}
+
+/**
+ * Folders and files to read overlays from. Relative setting paths are
+ * resolved against each workspace folder.
+ */
+function overlaySources(): string[] {
+    const folders = (vscode.workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+    const configured = vscode.workspace.getConfiguration('vectric').get<string[]>(OVERLAY_SETTING, []);
+    const sources: string[] = [];
+    for (const entry of configured) {
+        if (path.isAbsolute(entry)) {
+            sources.push(entry);
+        } else {
+            sources.push(...folders.map(folder => path.join(folder, entry)));
+        }
+    }
+    sources.push(...folders.map(folder => path.join(folder, OVERLAY_FOLDER)));
+    return sources;
+}
+
+/**
+ * The .json files of a source, in name order
+ */
+function overlayFiles(source: string): string[] {
+    try {
+        if (fs.statSync(source).isDirectory()) {
+            return fs.readdirSync(source).filter(f => f.endsWith('.json')).sort().map(f => path.join(source, f));
+        }
+        return [source];
+    } catch {
+        return [];      // Sources that don't exist are simply unused
+    }
+}
+
+/**
+ * Add the entries of one overlay file, reporting anything that can't be used
+ */
+function readOverlayFile(file: string, overlay: ApiOverlay) {
+    const report = (where: string, message: string) => overlay.problems.push({ file, path: where, message });
+    let data: { classes?: unknown; functions?: unknown };
+    try {
+        data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        report('', `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+    if (typeof data !== 'object' || data === null || (!Array.isArray(data.classes) && !Array.isArray(data.functions))) {
+        report('', 'An overlay needs a "classes" or "functions" array');
+        return;
+    }
+    overlay.files.push(file);
+
+    const addNamed = <T>(key: 'classes' | 'functions', target: T[]) => {
+        const list = data[key];
+        if (!Array.isArray(list)) {
+            return;
+        }
+        list.forEach((entry, i) => {
+            if (typeof entry?.name === 'string' && entry.name) {
+                target.push(entry);
+            } else {
+                report(`${key}[${i}]`, 'Missing required property "name"');
+            }
+        });
+    };
+    addNamed('classes', overlay.classes);
+    addNamed('functions', overlay.functions);
+}
+
+/**
+ * Read the overlay files of the given folders and files, in order
+ */
+export function readOverlays(sources: string[]): ApiOverlay {
+    const overlay: ApiOverlay = { classes: [], functions: [], files: [], problems: [] };
+    for (const source of sources) {
+        for (const file of overlayFiles(source)) {
+            readOverlayFile(file, overlay);
+        }
+    }
+    return overlay;
+}
+
+/**
+ * Read every overlay file of the workspace and settings
+ */
+export function loadApiOverlays(): ApiOverlay {
+    return readOverlays(overlaySources());
+}
+
+/**
+ * Watch the overlay files and call back when they change, or when the
+ * setting or workspace folders change which files are overlays
+ */
+export function watchApiOverlays(onChange: () => void): vscode.Disposable {
+    let watchers: vscode.Disposable[] = [];
+    let pending: NodeJS.Timeout | undefined;
+
+    // Saving can raise several events at once; reload once
+    const changed = () => {
+        clearTimeout(pending);
+        pending = setTimeout(onChange, 200);
+    };
+
+    const createWatchers = () => {
+        watchers.forEach(w => w.dispose());
+        watchers = overlaySources().map(source => {
+            const pattern = source.endsWith('.json')
+                ? new vscode.RelativePattern(vscode.Uri.file(path.dirname(source)), path.basename(source))
+                : new vscode.RelativePattern(vscode.Uri.file(source), '*.json');
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            return vscode.Disposable.from(watcher, watcher.onDidCreate(changed), watcher.onDidChange(changed), watcher.onDidDelete(changed));
+        });
+    };
+    const sourcesChanged = () => {
+        createWatchers();
+        changed();
+    };
+    createWatchers();
+
+    const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration(`vectric.${OVERLAY_SETTING}`)) {
+            sourcesChanged();
+        }
+    });
+    const folderListener = vscode.workspace.onDidChangeWorkspaceFolders(sourcesChanged);
+
+    return new vscode.Disposable(() => {
+        clearTimeout(pending);
+        watchers.forEach(w => w.dispose());
+        configListener.dispose();
+        folderListener.dispose();
+    });
+}
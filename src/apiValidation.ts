@@ -0,0 +1,367 @@
+// ==================== Vectric API Data Validation ====================
+//
+// Checks the vectric-api/*.json files against the JSON Schemas published in
+// vectric-api/schemas, and checks index.json against the files it lists:
+// every category file must exist, and the count and total_* fields must
+// match what the files contain, and every type a signature or property
+// names must be a known class or a Lua type. The lua-stdlib files are
+// checked against the same schemas. Supports the subset of JSON Schema the
+// published schemas use.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiClass, ApiFunction, ApiSignature, ApiConstructor } from './vectricApi';
+
+export interface ApiProblem {
+    file: string;       // File name relative to the API folder
+    path: string;       // Location inside the file, e.g. "classes[2].methods[0].signature"
+    message: string;
+}
+
+interface Schema {
+    $ref?: string;
+    type?: string;
+    enum?: unknown[];
+    required?: string[];
+    properties?: Record<string, Schema>;
+    additionalProperties?: boolean;
+    items?: Schema;
+    pattern?: string;
+    minLength?: number;
+    minimum?: number;
+    definitions?: Record<string, Schema>;
+}
+
+const SCHEMA_FOLDER = 'schemas';
+const INDEX_SCHEMA = 'index.schema.json';
+const GLOBAL_CATEGORY_SCHEMA = 'global-category.schema.json';
+const CLASS_CATEGORY_SCHEMA = 'class-category.schema.json';
+const LUA_INDEX_SCHEMA = 'lua-index.schema.json';
+
+// Types that need no class entry
+const PRIMITIVE_TYPES = new Set(['number', 'string', 'boolean', 'void', 'nil', 'table', 'function', 'iterator', 'any']);
+
+/**
+ * Loads schema documents on demand and resolves `file.json#/definitions/name`
+ * references between them
+ */
+class SchemaSet {
+    private readonly documents = new Map<string, Schema>();
+
+    constructor(private readonly folder: string) {}
+
+    document(file: string): Schema {
+        let schema = this.documents.get(file);
+        if (!schema) {
+            schema = JSON.parse(fs.readFileSync(path.join(this.folder, file), 'utf8')) as Schema;
+            this.documents.set(file, schema);
+        }
+        return schema;
+    }
+
+    resolve(ref: string, currentFile: string): { schema: Schema; file: string } {
+        const [refFile, pointer] = ref.split('#');
+        const file = refFile || currentFile;
+        let schema: unknown = this.document(file);
+        for (const part of (pointer || '').split('/').filter(p => p)) {
+            schema = (schema as Record<string, unknown>)[part];
+        }
+        if (!schema) {
+            throw new Error(`Unresolved schema reference ${ref} in ${currentFile}`);
+        }
+        return { schema: schema as Schema, file };
+    }
+}
+
+function typeName(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    if (type === 'integer') {
+        return Number.isInteger(value);
+    }
+    return typeName(value) === type;
+}
+
+function childPath(parent: string, key: string | number): string {
+    if (typeof key === 'number') {
+        return `${parent}[${key}]`;
+    }
+    return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Validate a value against a schema, adding a problem for every mismatch
+ */
+function validateValue(value: unknown, schema: Schema, schemaFile: string, schemas: SchemaSet, file: string, at: string, problems: ApiProblem[]) {
+    if (schema.$ref) {
+        const target = schemas.resolve(schema.$ref, schemaFile);
+        validateValue(value, target.schema, target.file, schemas, file, at, problems);
+        return;
+    }
+    const report = (message: string, where = at) => problems.push({ file, path: where, message });
+
+    if (schema.type && !matchesType(value, schema.type)) {
+        report(`Expected ${schema.type} but found ${typeName(value)}`);
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        report(`Expected one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')} but found ${JSON.stringify(value)}`);
+        return;
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            report('Must not be empty');
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            report(`"${value}" does not match ${schema.pattern}`);
+        }
+    }
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+        report(`Must be at least ${schema.minimum}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => validateValue(item, schema.items!, schemaFile, schemas, file, childPath(at, i), problems));
+    }
+
+    if (typeName(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const name of schema.required || []) {
+            if (!(name in object)) {
+                report(`Missing required property "${name}"`);
+            }
+        }
+        for (const [name, propertyValue] of Object.entries(object)) {
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                validateValue(propertyValue, propertySchema, schemaFile, schemas, file, childPath(at, name), problems);
+            } else if (schema.additionalProperties === false) {
+                report(`Unknown property "${name}"`, childPath(at, name));
+            }
+        }
+    }
+}
+
+/**
+ * Read and parse an existing JSON file, reporting a problem instead of throwing
+ */
+function readJson(apiPath: string, file: string, problems: ApiProblem[]): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(apiPath, file), 'utf8'));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        problems.push({ file, path: '', message: `Invalid JSON: ${message}` });
+        return undefined;
+    }
+}
+
+interface IndexCategory {
+    file: string;
+    count: number;
+}
+
+interface CategoryData {
+    file: string;
+    functions: ApiFunction[];
+    classes: ApiClass[];
+}
+
+/**
+ * Validate the category files of one index.json section and check their
+ * counts. Returns the number of entries actually found; files that match
+ * their schema are added to loaded. listPath locates the categories in the
+ * index, e.g. "globals.categories".
+ */
+function validateSection(apiPath: string, schemas: SchemaSet, section: 'globals' | 'classes', categories: IndexCategory[], listPath: string, loaded: CategoryData[], problems: ApiProblem[]): number {
+    const schemaFile = section === 'globals' ? GLOBAL_CATEGORY_SCHEMA : CLASS_CATEGORY_SCHEMA;
+    const listKey = section === 'globals' ? 'functions' : 'classes';
+    let total = 0;
+
+    categories.forEach((category, i) => {
+        const exists = fs.existsSync(path.join(apiPath, category.file));
+        if (!exists) {
+            problems.push({ file: 'index.json', path: `${listPath}[${i}].file`, message: `Category file ${category.file} does not exist` });
+        }
+        const data = exists ? readJson(apiPath, category.file, problems) : undefined;
+        if (data === undefined) {
+            // Already reported; trust the stated count so the totals aren't reported too
+            total += category.count;
+            return;
+        }
+        const before = problems.length;
+        validateValue(data, schemas.document(schemaFile), schemaFile, schemas, category.file, '', problems);
+        if (problems.length === before) {
+            const valid = data as { functions?: ApiFunction[]; classes?: ApiClass[] };
+            loaded.push({ file: category.file, functions: valid.functions || [], classes: valid.classes || [] });
+        }
+
+        const list = (data as Record<string, unknown>)[listKey];
+        const count = Array.isArray(list) ? list.length : 0;
+        total += count;
+        if (category.count !== count) {
+            problems.push({ file: 'index.json', path: `${listPath}[${i}].count`, message: `Count is ${category.count} but ${category.file} has ${count} ${listKey}` });
+        }
+    });
+    return total;
+}
+
+// ==================== Type References ====================
+
+/**
+ * Type names in a return or property type: "CadObject, POSITION" and
+ * "Point2D?" name CadObject, POSITION and Point2D
+ */
+function typeNames(type: string): string[] {
+    return type.split(/[,|]/).map(t => t.replace(/\?|\[\]/g, '').trim()).filter(t => t);
+}
+
+/**
+ * Parameter types from a signature label such as "Name(a: Point2D, b?: number)"
+ */
+function parameterTypes(label: string): string[] {
+    const match = /\((.*)\)/.exec(label);
+    if (!match) {
+        return [];
+    }
+    return match[1].split(',')
+        .filter(parameter => parameter.includes(':'))
+        .flatMap(parameter => typeNames(parameter.slice(parameter.indexOf(':') + 1)));
+}
+
+/**
+ * Report every return, parameter and property type that is neither a Lua
+ * type nor a class in the API, since values of that type can't be completed
+ */
+function checkTypeReferences(loaded: CategoryData[], problems: ApiProblem[]) {
+    const known = new Set(PRIMITIVE_TYPES);
+    loaded.forEach(category => category.classes.forEach(cls => known.add(cls.name)));
+
+    for (const { file, functions, classes } of loaded) {
+        const check = (types: string[], at: string) => {
+            for (const type of types.filter(t => !known.has(t))) {
+                problems.push({ file, path: at, message: `Unknown type "${type}"` });
+            }
+        };
+        const checkSignature = (signature: ApiSignature | ApiConstructor, at: string) => {
+            check(parameterTypes(signature.label), `${at}.label`);
+            if ('returns' in signature && signature.returns) {
+                check(typeNames(signature.returns), `${at}.returns`);
+            }
+        };
+
+        functions.forEach((fn, i) => checkSignature(fn.signature, `functions[${i}].signature`));
+        classes.forEach((cls, i) => {
+            (cls.constructors || []).forEach((ctor, j) => checkSignature(ctor, `classes[${i}].constructors[${j}]`));
+            (cls.methods || []).forEach((method, j) => checkSignature(method.signature, `classes[${i}].methods[${j}].signature`));
+            (cls.properties || []).forEach((property, j) => check(typeNames(property.detail), `classes[${i}].properties[${j}].detail`));
+        });
+    }
+}
+
+/**
+ * Validate index.json and every category file of an API folder
+ */
+export function validateApiFiles(apiPath: string, schemaPath = path.join(apiPath, SCHEMA_FOLDER)): ApiProblem[] {
+    const problems: ApiProblem[] = [];
+    const schemas = new SchemaSet(schemaPath);
+
+    if (!fs.existsSync(path.join(apiPath, 'index.json'))) {
+        problems.push({ file: 'index.json', path: '', message: 'File not found' });
+        return problems;
+    }
+    const index = readJson(apiPath, 'index.json', problems);
+    if (index === undefined) {
+        return problems;
+    }
+    const indexProblems = problems.length;
+    validateValue(index, schemas.document(INDEX_SCHEMA), INDEX_SCHEMA, schemas, 'index.json', '', problems);
+    if (problems.length > indexProblems) {
+        // Counts can't be checked against an index of the wrong shape
+        return problems;
+    }
+
+    const data = index as {
+        globals: { categories: IndexCategory[]; total_functions: number };
+        classes: { categories: IndexCategory[]; total_classes: number };
+        summary?: { total_global_functions?: number; total_classes?: number; total_api_items?: number };
+    };
+    const loaded: CategoryData[] = [];
+    const totalFunctions = validateSection(apiPath, schemas, 'globals', data.globals.categories, 'globals.categories', loaded, problems);
+    const totalClasses = validateSection(apiPath, schemas, 'classes', data.classes.categories, 'classes.categories', loaded, problems);
+    checkTypeReferences(loaded, problems);
+
+    const checkTotal = (where: string, stated: number | undefined, actual: number) => {
+        if (stated !== undefined && stated !== actual) {
+            problems.push({ file: 'index.json', path: where, message: `Total is ${stated} but the category files have ${actual}` });
+        }
+    };
+    checkTotal('globals.total_functions', data.globals.total_functions, totalFunctions);
+    checkTotal('classes.total_classes', data.classes.total_classes, totalClasses);
+    checkTotal('summary.total_global_functions', data.summary?.total_global_functions, totalFunctions);
+    checkTotal('summary.total_classes', data.summary?.total_classes, totalClasses);
+    checkTotal('summary.total_api_items', data.summary?.total_api_items, totalFunctions + totalClasses);
+
+    // Category files that exist but would never be loaded
+    const listed = new Set([...data.globals.categories, ...data.classes.categories].map(c => c.file));
+    for (const file of fs.readdirSync(apiPath)) {
+        if (/^(globals|classes)_.*\.json$/.test(file) && !listed.has(file)) {
+            problems.push({ file, path: '', message: 'Not listed in index.json, so it is not loaded' });
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Validate lua-stdlib/index.json and the library files it lists against the
+ * shared schemas. Problems name files relative to the extension, e.g.
+ * "lua-stdlib/lua_string.json".
+ */
+export function validateLuaStdlib(libraryPath: string, schemaPath: string): ApiProblem[] {
+    const problems: ApiProblem[] = [];
+    const schemas = new SchemaSet(schemaPath);
+    const folder = path.basename(libraryPath);
+    const located = () => problems.map(problem => ({ ...problem, file: `${folder}/${problem.file}` }));
+
+    const index = fs.existsSync(path.join(libraryPath, 'index.json')) ? readJson(libraryPath, 'index.json', problems) : undefined;
+    if (index === undefined) {
+        if (problems.length === 0) {
+            problems.push({ file: 'index.json', path: '', message: 'File not found' });
+        }
+        return located();
+    }
+    const indexProblems = problems.length;
+    validateValue(index, schemas.document(LUA_INDEX_SCHEMA), LUA_INDEX_SCHEMA, schemas, 'index.json', '', problems);
+    if (problems.length > indexProblems) {
+        return located();
+    }
+
+    const data = index as { libraries: IndexCategory[]; total_functions: number };
+    const total = validateSection(libraryPath, schemas, 'globals', data.libraries, 'libraries', [], problems);
+    if (total !== data.total_functions) {
+        problems.push({ file: 'index.json', path: 'total_functions', message: `Total is ${data.total_functions} but the library files have ${total}` });
+    }
+    const listed = new Set(data.libraries.map(l => l.file));
+    for (const file of fs.readdirSync(libraryPath)) {
+        if (/^lua_.*\.json$/.test(file) && !listed.has(file)) {
+            problems.push({ file, path: '', message: 'Not listed in index.json, so it is not loaded' });
+        }
+    }
+    return located();
+}
+
+/**
+ * One line of the problem report: "file: path: message"
+ */
+export function formatApiProblem(problem: ApiProblem): string {
+    return problem.path ? `${problem.file}: ${problem.path}: ${problem.message}` : `${problem.file}: ${problem.message}`;
+}
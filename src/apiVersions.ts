@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiClass, ApiFunction, Versioned, mergeClasses, mergeFunctions } from './vectricApi';
+import { readOverlays } from './apiOverlay';
+import { ApiProblem } from './apiValidation';
+
+// ==================== API Versions ====================
+//
+// Classes and members may carry "since" and "removed" versions, and other
+// releases can have their own API set (see Versioned API Sets below).
+// A file chooses its target with a header comment near the top:
+//
+//     -- vectric-api: 11.5
+//
+// otherwise the vectric.apiVersion setting applies. Without either, every
+// API is assumed to be available.
+
+const VERSION_SETTING = 'apiVersion';
+const VERSION_HEADER = /^--+\s*vectric-api\s*:\s*(\d+(?:\.\d+)*)/;
+const VERSION_NUMBER = /^\d+(?:\.\d+)*$/;
+
+/**
+ * Compare dotted version numbers numerically ("11.5" < "12.0" < "12.10")
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(n => parseInt(n, 10) || 0);
+    const partsB = b.split('.').map(n => parseInt(n, 10) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const difference = (partsA[i] || 0) - (partsB[i] || 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Check whether an API exists in a version (any version when null)
+ */
+export function isAvailableIn(entry: Versioned, version: string | null): boolean {
+    if (!version) {
+        return true;
+    }
+    if (entry.since && compareVersions(version, entry.since) < 0) {
+        return false;
+    }
+    return !(entry.removed && compareVersions(version, entry.removed) >= 0);
+}
+
+/**
+ * "added in 12.0", "removed in 12.5" or both; empty for unversioned APIs
+ */
+export function describeVersions(entry: Versioned): string {
+    const parts: string[] = [];
+    if (entry.since) {
+        parts.push(`added in ${entry.since}`);
+    }
+    if (entry.removed) {
+        parts.push(`removed in ${entry.removed}`);
+    }
+    return parts.join(', ');
+}
+
+/**
+ * Find a `-- vectric-api: 11.5` header among the comments that start a file
+ */
+export function findVersionHeader(text: string): string | null {
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            continue;
+        }
+        if (!trimmed.startsWith('--')) {
+            break;
+        }
+        const match = VERSION_HEADER.exec(trimmed);
+        if (match) {
+            return match[1];
+        }
+    }
+    return null;
+}
+
+/**
+ * The API version the vectric.apiVersion setting targets for a file
+ */
+export function configuredApiVersion(uri: vscode.Uri): string | null {
+    const configured = vscode.workspace.getConfiguration('vectric', uri).get<string>(VERSION_SETTING, '');
+    return configured.trim() || null;
+}
+
+/**
+ * The API version a document targets: its header, else the setting
+ */
+export function targetApiVersion(document: vscode.TextDocument): string | null {
+    return findVersionHeader(document.getText()) || configuredApiVersion(document.uri);
+}
+
+// ==================== Versioned API Sets ====================
+//
+// The bundled files describe the release index.json names. Other releases
+// are described side by side in vectric-api/versions/<version>/, in the
+// overlay format: each folder's files patch the bundled classes and
+// functions (signatures, documentation, since and removed) for that
+// release. A document uses the oldest set at or after the version it
+// targets, so nothing the target has is missing; "since" marks what it
+// doesn't have yet.
+
+export const VERSIONS_FOLDER = 'versions';
+
+export interface ApiSet {
+    version: string;
+    classes: ApiClass[];
+    globalFunctions: ApiFunction[];
+}
+
+/**
+ * The bundled set and one set per folder of vectric-api/versions, oldest first
+ */
+export function loadApiSets(apiPath: string, bundled: ApiSet): { sets: ApiSet[]; problems: ApiProblem[] } {
+    const sets = [bundled];
+    const problems: ApiProblem[] = [];
+    const versionsPath = path.join(apiPath, VERSIONS_FOLDER);
+    let folders: string[] = [];
+    try {
+        folders = fs.readdirSync(versionsPath).filter(name => fs.statSync(path.join(versionsPath, name)).isDirectory());
+    } catch {
+        // No versioned sets
+    }
+    for (const version of folders) {
+        const folder = path.join(VERSIONS_FOLDER, version);
+        if (!VERSION_NUMBER.test(version)) {
+            problems.push({ file: folder, path: '', message: 'Not a version number, so the folder is not loaded' });
+            continue;
+        }
+        if (sets.some(set => compareVersions(set.version, version) === 0)) {
+            problems.push({ file: folder, path: '', message: `Version ${version} is already loaded` });
+            continue;
+        }
+        const overlay = readOverlays([path.join(versionsPath, version)]);
+        problems.push(...overlay.problems);
+        sets.push({
+            version,
+            classes: mergeClasses(bundled.classes, overlay.classes),
+            globalFunctions: mergeFunctions(bundled.globalFunctions, overlay.functions)
+        });
+    }
+    return { sets: sets.sort((a, b) => compareVersions(a.version, b.version)), problems };
+}
+
+/**
+ * The set for a target version: the oldest at or after it, else the newest
+ * (also used when there's no target, as every API is then allowed)
+ */
+export function selectApiSet(sets: ApiSet[], version: string | null): ApiSet {
+    return (version && sets.find(set => compareVersions(set.version, version) >= 0)) || sets[sets.length - 1];
+}
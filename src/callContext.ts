@@ -0,0 +1,259 @@
+import { Token } from './luaLexer';
+import { Expression, MemberAccess, parsePrefixExpressionBefore } from './luaParser';
+import { LuaAnalysis } from './luaDocument';
+
+// ==================== Call Detection ====================
+//
+// Finds the innermost function call the cursor is inside by walking the
+// document's tokens, so parentheses, commas and quotes inside strings and
+// comments are never counted, and commas inside nested calls and table
+// constructors don't move the active parameter.
+
+export interface CallContext {
+    functionName: string;
+    nameStart: number;          // Offset of the function/method name
+    receiver: string | null;    // "obj" in obj:Method( or obj.Func(; '' when not a plain name
+    receiverExpression: Expression | null;  // The whole receiver, e.g. job.LayerManager in job.LayerManager:GetLayerWithName(
+    isMethod: boolean;          // Called with ':'
+    openParen: number;          // Offset of the "("
+    argumentIndex: number;      // Zero-based index of the argument at the cursor
+    argumentCount: number;      // Arguments in the whole call, including any after the cursor
+}
+
+const OPENERS: { [close: string]: string } = { ')': '(', '}': '{', ']': '[' };
+
+// Keywords that can't appear inside an argument list outside a function body
+const STATEMENT_KEYWORDS = new Set([
+    'local', 'if', 'then', 'elseif', 'else', 'while', 'do', 'for', 'repeat', 'until', 'return', 'break', 'goto'
+]);
+
+function isSymbol(token: Token | undefined, value: string): boolean {
+    return !!token && token.type === 'symbol' && token.value === value;
+}
+
+function isKeyword(token: Token | undefined, value: string): boolean {
+    return !!token && token.type === 'keyword' && token.value === value;
+}
+
+/**
+ * Check whether the name at `index` is the name in a function definition,
+ * including dotted and method names (function a.b:c).
+ */
+function isFunctionName(tokens: Token[], index: number): boolean {
+    let i = index - 1;
+    while (i >= 1 && (isSymbol(tokens[i], '.') || isSymbol(tokens[i], ':')) && tokens[i - 1].type === 'name') {
+        i -= 2;
+    }
+    return isKeyword(tokens[i], 'function');
+}
+
+/**
+ * Index of the last token that ends at or before the offset
+ */
+function lastTokenBefore(tokens: Token[], offset: number): number {
+    let low = 0;
+    let high = tokens.length - 1;
+    let result = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (tokens[mid].end <= offset && tokens[mid].type !== 'eof') {
+            result = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return result;
+}
+
+/**
+ * Walk back from the cursor to the innermost unclosed "(" that belongs to
+ * a call, counting the top-level commas on the way.
+ */
+function findOpenParen(tokens: Token[], last: number): { index: number; commas: number } | null {
+    let depth = 0;
+    let blockDepth = 0;     // Inside an anonymous function body (function ... end)
+    let commas = 0;
+
+    for (let i = last; i >= 0; i--) {
+        const token = tokens[i];
+
+        if (token.type === 'keyword') {
+            if (token.value === 'end') {
+                blockDepth++;
+            } else if (token.value === 'function' && blockDepth > 0) {
+                blockDepth--;
+            } else if (depth === 0 && blockDepth === 0 && STATEMENT_KEYWORDS.has(token.value)) {
+                return null;
+            }
+            continue;
+        }
+        if (token.type !== 'symbol') {
+            continue;
+        }
+
+        if (token.value === ')' || token.value === '}' || token.value === ']') {
+            depth++;
+        } else if (token.value === '(' || token.value === '{' || token.value === '[') {
+            if (depth > 0) {
+                depth--;
+                continue;
+            }
+            if (token.value !== '(') {
+                // Inside a table constructor or index: the call (if any) is further out
+                commas = 0;
+                continue;
+            }
+            const previous = tokens[i - 1];
+            const isCall = previous && (previous.type === 'name' || isSymbol(previous, ')') || isSymbol(previous, ']'));
+            const isDefinition = previous && previous.type === 'name' && isFunctionName(tokens, i - 1);
+            if (isCall && !isDefinition) {
+                return { index: i, commas };
+            }
+            // Grouping parenthesis or a function definition's parameter list
+            commas = 0;
+        } else if (token.value === ',' && depth === 0 && blockDepth === 0) {
+            commas++;
+        }
+    }
+    return null;
+}
+
+/**
+ * Count the arguments of a call by scanning forward from its "(" to the
+ * matching ")" (or to the point where the call obviously stops).
+ */
+function countArguments(tokens: Token[], openIndex: number): number {
+    let depth = 0;
+    let blockDepth = 0;
+    let commas = 0;
+    let sawArgument = false;
+
+    for (let i = openIndex + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'eof') {
+            break;
+        }
+        if (token.type === 'keyword') {
+            if (token.value === 'function') {
+                blockDepth++;
+            } else if (token.value === 'end' && blockDepth > 0) {
+                blockDepth--;
+            } else if (depth === 0 && blockDepth === 0 && STATEMENT_KEYWORDS.has(token.value)) {
+                break;
+            }
+            sawArgument = true;
+            continue;
+        }
+        if (token.type === 'symbol' && depth === 0 && blockDepth === 0) {
+            if (token.value === ')') {
+                break;
+            }
+            if (token.value === ',') {
+                commas++;
+                continue;
+            }
+        }
+        if (token.type === 'symbol') {
+            if (token.value === '(' || token.value === '{' || token.value === '[') {
+                depth++;
+            } else if (OPENERS[token.value] !== undefined) {
+                depth--;
+            }
+        }
+        sawArgument = true;
+    }
+    return sawArgument || commas > 0 ? commas + 1 : 0;
+}
+
+/**
+ * Find the innermost call surrounding the given offset
+ */
+export function findCallContext(analysis: LuaAnalysis, offset: number): CallContext | null {
+    const tokens = analysis.tokens;
+    const last = lastTokenBefore(tokens, offset);
+    if (last < 0) {
+        return null;
+    }
+
+    const open = findOpenParen(tokens, last);
+    if (!open) {
+        return null;
+    }
+
+    const nameToken = tokens[open.index - 1];
+    if (!nameToken || nameToken.type !== 'name') {
+        // f(x)(y) or t[i](y) - no name to look up
+        return null;
+    }
+
+    let receiver: string | null = null;
+    let receiverExpression: Expression | null = null;
+    let isMethod = false;
+    const separator = tokens[open.index - 2];
+    if (isSymbol(separator, ':') || isSymbol(separator, '.')) {
+        isMethod = separator.value === ':';
+        const receiverToken = tokens[open.index - 3];
+        const beforeReceiver = tokens[open.index - 4];
+        const isPlainName = receiverToken && receiverToken.type === 'name' &&
+            !isSymbol(beforeReceiver, '.') && !isSymbol(beforeReceiver, ':');
+        receiver = isPlainName ? receiverToken.value : '';
+        receiverExpression = parsePrefixExpressionBefore(tokens, open.index - 3);
+    }
+
+    return {
+        functionName: nameToken.value,
+        nameStart: nameToken.start,
+        receiver,
+        receiverExpression,
+        isMethod,
+        openParen: tokens[open.index].start,
+        argumentIndex: open.commas,
+        argumentCount: countArguments(tokens, open.index)
+    };
+}
+
+// ==================== Member Detection ====================
+
+/**
+ * Find the `.name` or `:name` at the given offset from the tokens, parsing
+ * its receiver however long the chain (`list:GetNext(pos).Name`). The name
+ * is empty when the offset is right after the '.' or ':'. Unlike
+ * findMemberAt this doesn't need the statement to parse, so it works while
+ * the member is being typed.
+ */
+export function findMemberAccessAt(analysis: LuaAnalysis, offset: number): MemberAccess | null {
+    const tokens = analysis.tokens;
+    const last = lastTokenBefore(tokens, offset);
+    const following = tokens[last + 1];
+
+    let indexer = last;
+    let name = '';
+    let start = offset;
+    if (following && following.type === 'name' && following.start <= offset) {
+        // Inside a name
+        name = following.value;
+        start = following.start;
+    } else if (last >= 0 && tokens[last].type === 'name' && tokens[last].end === offset) {
+        // Just after a name
+        indexer = last - 1;
+        name = tokens[last].value;
+        start = tokens[last].start;
+    } else if (last < 0 || tokens[last].end !== offset) {
+        return null;
+    }
+
+    const token = tokens[indexer];
+    if (!isSymbol(token, '.') && !isSymbol(token, ':')) {
+        return null;
+    }
+    const base = parsePrefixExpressionBefore(tokens, indexer - 1);
+    if (!base) {
+        return null;
+    }
+    return {
+        base,
+        identifier: { type: 'Identifier', name, start, end: start + name.length },
+        indexer: token.value === ':' ? ':' : '.'
+    };
+}
@@ -0,0 +1,337 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ApiClass, ApiFunction, findClassByName, getClassWithInheritance, findDeclaringClass } from './vectricApi';
+import { Block, Expression, Identifier, FunctionExpression, CallExpression, MethodCallExpression, walkTree } from './luaParser';
+import { LuaSymbol, ScopeTree, resolveName, findSymbolAt, findFieldAt } from './luaScope';
+import { inferReceiverType } from './typeInference';
+import { WorkspaceFile, fileFromDocument, getWorkspaceFiles } from './workspaceIndex';
+import { functionName } from './symbols';
+
+// ==================== Call Hierarchy ====================
+//
+// Items are the gadget's named functions and the Vectric API functions,
+// constructors and methods they call. A call is bound to a gadget function
+// through the scope tree, as Go to Definition binds it, and to an API
+// method through the inferred type of its receiver. API items have no
+// source of their own, so they point at the call they were found at; they
+// have incoming calls but no outgoing ones.
+
+/**
+ * A gadget function by the symbol or field it is assigned to. Globals are
+ * matched by name in every file; locals only in their own file.
+ */
+interface GadgetTarget {
+    kind: 'gadget';
+    name: string;
+    path: string[];
+    local: { uri: string; nameStart: number } | null;
+}
+
+/**
+ * A Vectric API function (no class), constructor (named after its class)
+ * or method (of the class that declares it)
+ */
+interface ApiTarget {
+    kind: 'api';
+    className: string | null;
+    name: string;
+}
+
+type CallTarget = GadgetTarget | ApiTarget;
+
+type AnyCall = CallExpression | MethodCallExpression;
+
+/**
+ * A named function of a file
+ */
+interface FunctionDefinition {
+    name: string;                               // As written, e.g. `Util.Offset` or `Gadget:Run`
+    func: FunctionExpression;
+    node: { start: number; end: number };       // The declaring statement or table field
+    identifier: Identifier;                     // The last name, for the selection range
+    isMethod: boolean;
+    target: GadgetTarget | null;
+}
+
+/**
+ * What an item stands for: a function of a file (or the file's top-level
+ * code when definition is null), or an API member
+ */
+type ItemData =
+    | { kind: 'gadget'; file: WorkspaceFile; definition: FunctionDefinition | null }
+    | { kind: 'api'; file: WorkspaceFile; target: ApiTarget };
+
+// VS Code hands back the items it was given, so their data is kept alongside
+const itemData = new WeakMap<vscode.CallHierarchyItem, ItemData>();
+
+function rangeOf(file: WorkspaceFile, node: { start: number; end: number }): vscode.Range {
+    return new vscode.Range(file.positionAt(node.start), file.positionAt(node.end));
+}
+
+function gadgetTarget(file: WorkspaceFile, symbol: LuaSymbol, path: string[]): GadgetTarget {
+    const local = symbol.kind === 'global' ? null : { uri: file.uri.toString(), nameStart: symbol.nameStart };
+    return { kind: 'gadget', name: symbol.name, path, local };
+}
+
+/**
+ * The symbol or field a name at an offset is bound to
+ */
+function nameTarget(file: WorkspaceFile, offset: number): GadgetTarget | null {
+    const scopes = file.analysis.scopes;
+    const match = findFieldAt(scopes, offset);
+    if (match) {
+        return gadgetTarget(file, match.owner, match.path);
+    }
+    const symbol = findSymbolAt(scopes, offset);
+    return symbol ? gadgetTarget(file, symbol, []) : null;
+}
+
+function sameTarget(a: CallTarget, b: CallTarget): boolean {
+    if (a.kind === 'api' || b.kind === 'api') {
+        return a.kind === 'api' && b.kind === 'api' && a.className === b.className && a.name === b.name;
+    }
+    return a.name === b.name && a.path.join('.') === b.path.join('.')
+        && (a.local === null ? b.local === null : b.local !== null && a.local.uri === b.local.uri && a.local.nameStart === b.local.nameStart);
+}
+
+/**
+ * The named functions of a file: function declarations, functions assigned
+ * to locals, globals and fields, and functions in table constructors
+ */
+function collectDefinitions(file: WorkspaceFile): FunctionDefinition[] {
+    const definitions: FunctionDefinition[] = [];
+    const add = (name: Expression, value: Expression | undefined, node: { start: number; end: number }) => {
+        const identifier = name.type === 'Identifier' ? name : name.type === 'MemberExpression' ? name.identifier : null;
+        if (identifier && value && value.type === 'FunctionExpression') {
+            const isMethod = name.type === 'MemberExpression' && name.indexer === ':';
+            definitions.push({ name: functionName(name), func: value, node, identifier, isMethod, target: nameTarget(file, identifier.start) });
+        }
+    };
+
+    walkTree(file.analysis.chunk, node => {
+        switch (node.type) {
+            case 'FunctionDeclaration':
+                add(node.name, node.func, node);
+                break;
+            case 'LocalStatement':
+            case 'AssignmentStatement':
+                node.variables.forEach((variable, i) => add(variable, node.init[i], node));
+                break;
+            case 'TableKeyString':
+                add(node.key, node.value, node);
+                break;
+        }
+    });
+    return definitions;
+}
+
+/**
+ * The name a call is made by: `f`, `Util.f` or `obj:f`
+ */
+function calleeName(call: AnyCall): { start: number; end: number } {
+    if (call.type === 'MethodCallExpression') {
+        return call.identifier;
+    }
+    return call.base.type === 'MemberExpression' ? call.base.identifier : call.base;
+}
+
+/**
+ * The API method a `.name` or `:name` call on a receiver resolves to
+ */
+function apiMethodTarget(scopes: ScopeTree, base: Expression, name: string, classes: ApiClass[], globalFunctions: ApiFunction[]): ApiTarget | null {
+    const type = inferReceiverType(scopes, base, classes, globalFunctions);
+    const cls = type ? findClassByName(classes, type) : undefined;
+    if (!cls || !(getClassWithInheritance(cls, classes).methods || []).some(m => m.name === name)) {
+        return null;
+    }
+    return { kind: 'api', className: findDeclaringClass(cls, classes, name).name, name };
+}
+
+/**
+ * What a call calls: an API member, or the gadget symbol or field it names
+ */
+function resolveCall(file: WorkspaceFile, call: AnyCall, classes: ApiClass[], globalFunctions: ApiFunction[]): CallTarget | null {
+    const scopes = file.analysis.scopes;
+    if (call.type === 'MethodCallExpression') {
+        return apiMethodTarget(scopes, call.base, call.identifier.name, classes, globalFunctions) || nameTarget(file, call.identifier.start);
+    }
+    const base = call.base;
+    if (base.type === 'MemberExpression') {
+        return apiMethodTarget(scopes, base.base, base.identifier.name, classes, globalFunctions) || nameTarget(file, base.identifier.start);
+    }
+    if (base.type !== 'Identifier') {
+        return null;
+    }
+    // Gadget functions and locals shadow API names
+    const symbol = resolveName(scopes, base.name, base.start);
+    if (!symbol || (symbol.kind === 'global' && symbol.assignments.length === 0)) {
+        if (globalFunctions.some(f => f.name === base.name)) {
+            return { kind: 'api', className: null, name: base.name };
+        }
+        if (findClassByName(classes, base.name)) {
+            return { kind: 'api', className: base.name, name: base.name };
+        }
+    }
+    return nameTarget(file, base.start);
+}
+
+/**
+ * Visit the calls in a function body or a file's top-level code, leaving
+ * out the bodies of the named functions defined inside it
+ */
+function forEachCall(body: Block, definitions: FunctionDefinition[], visit: (call: AnyCall) => void) {
+    const nested = new Set(definitions.map(d => d.func.body));
+    walkTree(body, node => {
+        if (node !== body && nested.has(node as Block)) {
+            return false;
+        }
+        if (node.type === 'CallExpression' || node.type === 'MethodCallExpression') {
+            visit(node);
+        }
+    });
+}
+
+function gadgetItem(file: WorkspaceFile, definition: FunctionDefinition | null): vscode.CallHierarchyItem {
+    const item = definition
+        ? new vscode.CallHierarchyItem(definition.isMethod ? vscode.SymbolKind.Method : vscode.SymbolKind.Function, definition.name,
+            path.basename(file.uri.fsPath), file.uri, rangeOf(file, definition.node), rangeOf(file, definition.identifier))
+        : new vscode.CallHierarchyItem(vscode.SymbolKind.File, path.basename(file.uri.fsPath), '', file.uri,
+            rangeOf(file, file.analysis.chunk), rangeOf(file, { start: 0, end: 0 }));
+    itemData.set(item, { kind: 'gadget', file, definition });
+    return item;
+}
+
+function apiItem(file: WorkspaceFile, target: ApiTarget, call: { start: number; end: number }): vscode.CallHierarchyItem {
+    const name = target.className && target.className !== target.name ? `${target.className}:${target.name}` : target.name;
+    const kind = target.className === null ? vscode.SymbolKind.Function
+        : target.className === target.name ? vscode.SymbolKind.Constructor : vscode.SymbolKind.Method;
+    const item = new vscode.CallHierarchyItem(kind, name, 'Vectric API', file.uri, rangeOf(file, call), rangeOf(file, call));
+    itemData.set(item, { kind: 'api', file, target });
+    return item;
+}
+
+/**
+ * The files a target can be called from or defined in: its own file for
+ * locals, else every workspace file
+ */
+async function filesFor(file: WorkspaceFile, target: CallTarget): Promise<WorkspaceFile[]> {
+    if (target.kind === 'gadget' && target.local) {
+        return [file];
+    }
+    const current = file.uri.toString();
+    return [file, ...(await getWorkspaceFiles()).filter(f => f.uri.toString() !== current)];
+}
+
+/**
+ * Items for what a call calls: the gadget functions assigned to the name,
+ * or the API member
+ */
+async function calleeItems(file: WorkspaceFile, call: AnyCall, target: CallTarget): Promise<vscode.CallHierarchyItem[]> {
+    if (target.kind === 'api') {
+        return [apiItem(file, target, calleeName(call))];
+    }
+    const items: vscode.CallHierarchyItem[] = [];
+    for (const other of await filesFor(file, target)) {
+        for (const definition of collectDefinitions(other)) {
+            if (definition.target && sameTarget(definition.target, target)) {
+                items.push(gadgetItem(other, definition));
+            }
+        }
+    }
+    return items;
+}
+
+/**
+ * The call hierarchy items for the function named at a position: a gadget
+ * function's declaration, or a call to a gadget function or API member
+ */
+export async function prepareCallHierarchy(document: vscode.TextDocument, position: vscode.Position, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<vscode.CallHierarchyItem[]> {
+    const file = fileFromDocument(document);
+    const offset = document.offsetAt(position);
+    const contains = (node: { start: number; end: number }) => node.start <= offset && offset <= node.end;
+
+    const definitions = collectDefinitions(file);
+    const definition = definitions.find(d => contains(d.identifier));
+    if (definition) {
+        return [gadgetItem(file, definition)];
+    }
+
+    let called: AnyCall | null = null;
+    walkTree(file.analysis.chunk, node => {
+        if ((node.type === 'CallExpression' || node.type === 'MethodCallExpression') && contains(calleeName(node))) {
+            called = node;
+        }
+    });
+    const call: AnyCall | null = called;
+    const target = call ? resolveCall(file, call, classes, globalFunctions) : null;
+    return call && target ? calleeItems(file, call, target) : [];
+}
+
+/**
+ * The gadget functions (or top-level code) that call an item
+ */
+export async function findIncomingCalls(item: vscode.CallHierarchyItem, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<vscode.CallHierarchyIncomingCall[]> {
+    const data = itemData.get(item);
+    const target = !data ? null : data.kind === 'api' ? data.target : data.definition ? data.definition.target : null;
+    if (!data || !target) {
+        return [];
+    }
+
+    const incoming: vscode.CallHierarchyIncomingCall[] = [];
+    for (const file of await filesFor(data.file, target)) {
+        const definitions = collectDefinitions(file);
+        // Calls grouped by the innermost function around them
+        const byCaller = new Map<FunctionDefinition | null, vscode.Range[]>();
+        walkTree(file.analysis.chunk, node => {
+            if (node.type !== 'CallExpression' && node.type !== 'MethodCallExpression') {
+                return;
+            }
+            const callee = resolveCall(file, node, classes, globalFunctions);
+            if (!callee || !sameTarget(callee, target)) {
+                return;
+            }
+            const caller = definitions
+                .filter(d => d.func.start <= node.start && node.end <= d.func.end)
+                .reduce<FunctionDefinition | null>((inner, d) => !inner || d.func.start > inner.func.start ? d : inner, null);
+            byCaller.set(caller, [...(byCaller.get(caller) || []), rangeOf(file, calleeName(node))]);
+        });
+        for (const [caller, ranges] of byCaller) {
+            incoming.push(new vscode.CallHierarchyIncomingCall(gadgetItem(file, caller), ranges));
+        }
+    }
+    return incoming;
+}
+
+/**
+ * The gadget functions and API members an item calls
+ */
+export async function findOutgoingCalls(item: vscode.CallHierarchyItem, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const data = itemData.get(item);
+    if (!data || data.kind === 'api') {
+        return [];
+    }
+
+    const file = data.file;
+    const body = data.definition ? data.definition.func.body : file.analysis.chunk;
+    const calls: Array<{ call: AnyCall; target: CallTarget }> = [];
+    forEachCall(body, collectDefinitions(file), call => {
+        const target = resolveCall(file, call, classes, globalFunctions);
+        if (target) {
+            calls.push({ call, target });
+        }
+    });
+
+    // One entry per callee in the order first called, with the ranges of every call to it
+    calls.sort((a, b) => calleeName(a.call).start - calleeName(b.call).start);
+    const outgoing: Array<{ target: CallTarget; items: vscode.CallHierarchyItem[]; ranges: vscode.Range[] }> = [];
+    for (const { call, target } of calls) {
+        const range = rangeOf(file, calleeName(call));
+        const seen = outgoing.find(o => sameTarget(o.target, target));
+        if (seen) {
+            seen.ranges.push(range);
+        } else {
+            outgoing.push({ target, items: await calleeItems(file, call, target), ranges: [range] });
+        }
+    }
+    return outgoing.flatMap(({ items, ranges }) => items.map(callee => new vscode.CallHierarchyOutgoingCall(callee, ranges)));
+}
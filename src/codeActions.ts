@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction, findClassByName, getClassWithInheritance, isSameOrSubclass } from './vectricApi';
+import { Expression, MethodCallExpression, MemberAccess, findMemberAt, parseLua, walkTree } from './luaParser';
+import { Scope } from './luaScope';
+import { getDocumentAnalysis, LuaAnalysis } from './luaDocument';
+import { inferReceiverType, findValuesOfType } from './typeInference';
+import { DIAGNOSTIC_SOURCE, DiagnosticCode, findClosestName } from './diagnostics';
+
+// ==================== Code Actions ====================
+//
+// Quick fixes for the member diagnostics, worked out again from the API
+// classes rather than read back from the messages: the closest member name,
+// '.' and ':' swapped, and a CastCadObjectTo*-style cast when only a
+// subclass has the member. The one refactoring wraps the selected lines in
+// an `if job.Exists then` check.
+
+export const PROVIDED_KINDS = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite];
+
+// Which members a misspelled name may have meant
+type MemberUse = 'method' | 'read' | 'write';
+
+/**
+ * The class of a receiver, with its inherited members
+ */
+function receiverClass(analysis: LuaAnalysis, base: Expression, classes: ApiClass[], globalFunctions: ApiFunction[]): ApiClass | null {
+    const type = inferReceiverType(analysis.scopes, base, classes, globalFunctions);
+    const cls = type ? findClassByName(classes, type) : undefined;
+    return cls ? getClassWithInheritance(cls, classes) : null;
+}
+
+/**
+ * Names of the members a use can refer to
+ */
+function memberNames(cls: ApiClass, use: MemberUse): string[] {
+    if (use === 'method') {
+        return (cls.methods || []).map(m => m.name);
+    }
+    const properties = (cls.properties || []).map(p => p.name);
+    return use === 'write' ? properties : [...properties, ...(cls.constants || []).map(c => c.name)];
+}
+
+/**
+ * Find the method call whose name is the given identifier
+ */
+function findMethodCall(analysis: LuaAnalysis, member: MemberAccess): MethodCallExpression | null {
+    let found: MethodCallExpression | null = null;
+    walkTree(analysis.chunk, node => {
+        if (node.type === 'MethodCallExpression' && node.identifier === member.identifier) {
+            found = node;
+        }
+    });
+    return found;
+}
+
+/**
+ * Check whether a member access is the target of an assignment
+ */
+function isAssigned(analysis: LuaAnalysis, member: MemberAccess): boolean {
+    let assigned = false;
+    walkTree(analysis.chunk, node => {
+        if (node.type === 'AssignmentStatement' && node.variables.some(v => v.type === 'MemberExpression' && v.identifier === member.identifier)) {
+            assigned = true;
+        }
+    });
+    return assigned;
+}
+
+function createFix(title: string, document: vscode.TextDocument, diagnostic: vscode.Diagnostic, edits: Array<[number, number, string]>): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = new vscode.WorkspaceEdit();
+    for (const [start, end, text] of edits) {
+        action.edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), text);
+    }
+    return action;
+}
+
+/**
+ * Quick fixes for an unknown-method or unknown-property diagnostic
+ */
+function memberFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.CodeAction[] {
+    const analysis = getDocumentAnalysis(document);
+    const member = findMemberAt(analysis.chunk, document.offsetAt(diagnostic.range.start));
+    const cls = member ? receiverClass(analysis, member.base, classes, globalFunctions) : null;
+    if (!member || !cls) {
+        return [];
+    }
+    const fixes: vscode.CodeAction[] = [];
+    const name = member.identifier.name;
+    const text = document.getText();
+    // The '.' or ':' between the receiver and the name
+    const indexer = text.lastIndexOf(member.indexer, member.identifier.start);
+    const isMethod = memberNames(cls, 'method').includes(name);
+    const isValue = memberNames(cls, 'read').includes(name);
+
+    if (member.indexer === '.' && isMethod) {
+        fixes.push(createFix(`Call as method ':${name}()'`, document, diagnostic, [[indexer, member.identifier.end, `:${name}()`]]));
+    } else if (member.indexer === ':' && isValue) {
+        // obj:Count() becomes obj.Count; with arguments only the ':' can change
+        const call = findMethodCall(analysis, member);
+        const end = call && call.arguments.length === 0 ? call.end : indexer + 1;
+        const replacement = call && call.arguments.length === 0 ? `.${name}` : '.';
+        fixes.push(createFix(`Use as property '.${name}'`, document, diagnostic, [[indexer, end, replacement]]));
+    }
+    if (isMethod || isValue) {
+        fixes.forEach(fix => fix.isPreferred = true);
+        return fixes;
+    }
+
+    // Misspelled: the closest member of the same sort
+    const use: MemberUse = member.indexer === ':' ? 'method' : isAssigned(analysis, member) ? 'write' : 'read';
+    const suggestion = findClosestName(name, memberNames(cls, use));
+    if (suggestion) {
+        const fix = createFix(`Change to '${suggestion}'`, document, diagnostic, [[member.identifier.start, member.identifier.end, suggestion]]);
+        fix.isPreferred = true;
+        fixes.push(fix);
+    }
+
+    // Only a subclass has it: cast the receiver, e.g. CastCadObjectToCadContour(obj)
+    const base = member.base;
+    const baseText = text.substring(base.start, base.end);
+    for (const fn of globalFunctions) {
+        const parameterType = fn.signature?.parameters.length === 1 ? /:\s*(\w+)/.exec(fn.signature.parameters[0].documentation) : null;
+        const target = fn.name.startsWith('Cast') && fn.signature.returns ? findClassByName(classes, fn.signature.returns) : undefined;
+        if (!parameterType || !target || target.name === cls.name || !isSameOrSubclass(cls.name, parameterType[1], classes) || !isSameOrSubclass(target.name, cls.name, classes)) {
+            continue;
+        }
+        if (memberNames(getClassWithInheritance(target, classes), use).includes(name)) {
+            fixes.push(createFix(`Cast to ${target.name} with ${fn.name}`, document, diagnostic, [[base.start, base.end, `${fn.name}(${baseText})`]]));
+        }
+    }
+    return fixes;
+}
+
+/**
+ * Check whether a local declared between two offsets is used after them
+ */
+function declaresLocalUsedAfter(analysis: LuaAnalysis, start: number, end: number): boolean {
+    const search = (scope: Scope): boolean =>
+        scope.symbols.some(symbol => symbol.nameStart >= start && symbol.nameStart < end && symbol.references.some(ref => ref.start >= end))
+        || scope.children.some(search);
+    return search(analysis.scopes.root);
+}
+
+/**
+ * Wrap the selected lines in `if job.Exists then ... end`, using a
+ * VectricJob variable in scope or declaring one. Offered only when the
+ * lines are whole statements and declare no local used after them.
+ */
+function wrapInJobCheck(document: vscode.TextDocument, range: vscode.Range, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.CodeAction | null {
+    if (range.isEmpty) {
+        return null;
+    }
+    const lastLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+    const lines = new vscode.Range(range.start.line, 0, lastLine, document.lineAt(lastLine).text.length);
+    const block = document.getText(lines);
+    if (!block.trim() || parseLua(block).errors.length > 0) {
+        return null;
+    }
+
+    // A local the lines declare would go out of scope for the code after them
+    const analysis = getDocumentAnalysis(document);
+    if (declaresLocalUsedAfter(analysis, document.offsetAt(lines.start), document.offsetAt(lines.end))) {
+        return null;
+    }
+    const job = findValuesOfType(analysis.scopes, document.offsetAt(lines.start), 'VectricJob', classes, globalFunctions)
+        .find(value => !value.property && !value.method);
+    const jobName = job ? job.symbol.name : 'job';
+
+    const indent = /^\s*/.exec(document.lineAt(lines.start.line).text)![0];
+    const editor = vscode.window.activeTextEditor;
+    const options = editor && editor.document === document ? editor.options : undefined;
+    const unit = options && options.insertSpaces === false ? '\t' : ' '.repeat(typeof options?.tabSize === 'number' ? options.tabSize : 4);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const body = block.split(/\r?\n/).map(line => line.trim() ? `${unit}${line}` : line);
+    const wrapped = [
+        ...(job ? [] : [`${indent}local ${jobName} = VectricJob()`]),
+        `${indent}if ${jobName}.Exists then`,
+        ...body,
+        `${indent}end`
+    ];
+
+    const action = new vscode.CodeAction(`Wrap in 'if ${jobName}.Exists then'`, vscode.CodeActionKind.RefactorRewrite);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, lines, wrapped.join(eol));
+    return action;
+}
+
+/**
+ * Quick fixes for the extension's diagnostics in a range, plus the job check refactoring
+ */
+export function provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+        if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+            continue;
+        }
+        if (diagnostic.code === DiagnosticCode.unknownMethod || diagnostic.code === DiagnosticCode.unknownProperty) {
+            actions.push(...memberFixes(document, diagnostic, classes, globalFunctions));
+        }
+    }
+    const wrap = wrapInJobCheck(document, range, classes, globalFunctions);
+    if (wrap) {
+        actions.push(wrap);
+    }
+    return actions;
+}
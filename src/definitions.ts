@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { SymbolAssignment, findSymbolAt, findFieldAt, getField } from './luaScope';
+import { getDocumentAnalysis } from './luaDocument';
+import { WorkspaceFile, fileFromDocument, getWorkspaceFiles } from './workspaceIndex';
+
+// ==================== Go to Definition ====================
+//
+// Uses the same scope resolution as type inference: the name under the
+// cursor is bound to its symbol (or table field), and the definition is
+// where that symbol is declared or assigned. Globals and their fields may be
+// defined in any .lua file of the workspace.
+
+function locationOf(file: WorkspaceFile, start: number, end: number): vscode.Location {
+    return new vscode.Location(file.uri, new vscode.Range(file.positionAt(start), file.positionAt(end)));
+}
+
+/**
+ * Locations of the names written by a list of assignments
+ */
+function assignmentLocations(file: WorkspaceFile, assignments: SymbolAssignment[]): vscode.Location[] {
+    const locations: vscode.Location[] = [];
+    for (const assignment of assignments) {
+        const target = assignment.target;
+        if (target && !locations.some(l => l.range.start.isEqual(file.positionAt(target.start)))) {
+            locations.push(locationOf(file, target.start, target.end));
+        }
+    }
+    return locations;
+}
+
+/**
+ * Find where a global (or a field path below it) is assigned in the other
+ * workspace files
+ */
+async function findGlobalDefinitions(document: vscode.TextDocument, name: string, path: string[]): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = [];
+    const current = document.uri.toString();
+    for (const file of await getWorkspaceFiles()) {
+        if (file.uri.toString() === current) {
+            continue;
+        }
+        const symbol = file.analysis.scopes.globals.get(name);
+        const owner = symbol && path.length > 0 ? getField(symbol, path) : symbol;
+        if (owner) {
+            locations.push(...assignmentLocations(file, owner.assignments));
+        }
+    }
+    return locations;
+}
+
+/**
+ * Find the definitions of the variable, function or table field at a position
+ */
+export async function findDefinitions(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[]> {
+    const analysis = getDocumentAnalysis(document);
+    const offset = document.offsetAt(position);
+    const file = fileFromDocument(document);
+
+    const match = findFieldAt(analysis.scopes, offset);
+    if (match) {
+        const locations = assignmentLocations(file, match.field.assignments);
+        if (match.owner.kind === 'global') {
+            locations.push(...await findGlobalDefinitions(document, match.owner.name, match.path));
+        }
+        return locations;
+    }
+
+    const symbol = findSymbolAt(analysis.scopes, offset);
+    if (!symbol) {
+        return [];
+    }
+    if (symbol.kind !== 'global') {
+        return [locationOf(file, symbol.nameStart, symbol.nameEnd)];
+    }
+    return [
+        ...assignmentLocations(file, symbol.assignments),
+        ...await findGlobalDefinitions(document, symbol.name, [])
+    ];
+}
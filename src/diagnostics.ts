@@ -0,0 +1,433 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    ApiClass, ApiFunction, ApiParameter, Versioned, EditionTagged, findClassByName, getClassWithInheritance, acceptsArgumentCount, isOptionalParameter,
+    isVariadicParameter
+} from './vectricApi';
+import { Node, Expression, Identifier, MemberExpression, walkTree } from './luaParser';
+import { resolveName } from './luaScope';
+import { getDocumentAnalysis, LuaAnalysis } from './luaDocument';
+import { inferExpressionType } from './typeInference';
+import { isAvailableIn, describeVersions, targetApiVersion } from './apiVersions';
+import { isAvailableFor, describeEditions, targetProduct, isAspireGuarded } from './apiEditions';
+import { GadgetPage, findGadgetPages } from './gadgetHtml';
+import { LuaStdlib, findLibraryFunction, isInRuntime, describeLuaVersions } from './luaStdlib';
+
+// ==================== API Diagnostics ====================
+//
+// Checks calls and member accesses against the loaded API data so typos and
+// wrong argument counts show up in the editor instead of inside Aspire.
+
+export const DIAGNOSTIC_SOURCE = 'vectric';
+
+// Diagnostic codes, used by quick fixes to find the diagnostics they handle
+export const DiagnosticCode = {
+    unknownMethod: 'unknown-method',
+    unknownProperty: 'unknown-property',
+    unknownFunction: 'unknown-function',
+    argumentCount: 'argument-count',
+    readOnlyProperty: 'readonly-property',
+    unknownType: 'unknown-type',
+    apiVersion: 'api-version',
+    apiEdition: 'api-edition',
+    unknownHtmlId: 'unknown-html-id',
+    luaVersion: 'lua-version',
+    gadgetSandbox: 'gadget-sandbox'
+} as const;
+
+// Types LuaDoc annotations may use besides the API classes
+const LUA_TYPES = new Set(['nil', 'any', 'boolean', 'number', 'integer', 'string', 'table', 'function', 'userdata', 'thread', 'self']);
+
+/**
+ * Levenshtein distance between two names (case-insensitive)
+ */
+function editDistance(a: string, b: string): number {
+    a = a.toLowerCase();
+    b = b.toLowerCase();
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+/**
+ * Find the candidate closest to a (probably misspelled) name, if any is close enough
+ */
+export function findClosestName(name: string, candidates: string[]): string | null {
+    const limit = Math.max(2, Math.floor(name.length / 4));
+    let best: string | null = null;
+    let bestDistance = limit + 1;
+    for (const candidate of candidates) {
+        const distance = editDistance(name, candidate);
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+function describeCounts(overloads: ApiParameter[][]): string {
+    const counts = new Set<string>();
+    for (const parameters of overloads) {
+        const required = parameters.filter(p => !isOptionalParameter(p)).length;
+        if (isVariadicParameter(parameters[parameters.length - 1])) {
+            counts.add(`${required}+`);
+        } else {
+            counts.add(required === parameters.length ? `${required}` : `${required}-${parameters.length}`);
+        }
+    }
+    return [...counts].sort((a, b) => parseInt(a, 10) - parseInt(b, 10)).join(' or ');
+}
+
+/**
+ * Multi-value expressions in last position can expand to any number of
+ * arguments, so their calls can't be counted.
+ */
+function hasExpandingLastArgument(args: Expression[]): boolean {
+    const last = args[args.length - 1];
+    return !!last && (last.type === 'CallExpression' || last.type === 'MethodCallExpression' || last.type === 'VarargLiteral');
+}
+
+/**
+ * A class with members to check against. Some classes are listed without
+ * their members (e.g. ComponentManager); any member used on them may exist.
+ */
+function checkableClass(cls: ApiClass): ApiClass | null {
+    const members = [...(cls.properties || []), ...(cls.methods || []), ...(cls.constants || [])];
+    return members.length > 0 ? cls : null;
+}
+
+class DiagnosticChecker {
+    readonly diagnostics: vscode.Diagnostic[] = [];
+
+    constructor(
+        private readonly document: vscode.TextDocument,
+        private readonly analysis: LuaAnalysis,
+        private readonly classes: ApiClass[],
+        private readonly globalFunctions: ApiFunction[],
+        private readonly version: string | null,
+        private readonly product: string | null,
+        private readonly pages: GadgetPage[],
+        private readonly stdlib: LuaStdlib,
+        private readonly workspaceGlobals: Set<string>
+    ) {}
+
+    private report(node: { start: number; end: number }, message: string, code: string) {
+        const range = new vscode.Range(this.document.positionAt(node.start), this.document.positionAt(node.end));
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = code;
+        this.diagnostics.push(diagnostic);
+    }
+
+    /**
+     * Report an API the targeted version or product doesn't have. Aspire-only
+     * APIs are allowed where an IsAspire() check guards them.
+     */
+    private checkAvailability(node: { start: number; end: number }, entry: Versioned & EditionTagged, name: string) {
+        if (!isAvailableIn(entry, this.version)) {
+            this.report(node, `${name} is not available in Vectric API ${this.version} (${describeVersions(entry)}).`, DiagnosticCode.apiVersion);
+        }
+        if (isAvailableFor(entry, this.product)) {
+            return;
+        }
+        const guardable = entry.editions!.includes('Aspire');
+        if (guardable && isAspireGuarded(this.analysis.chunk, this.analysis.scopes, node.start)) {
+            return;
+        }
+        const hint = guardable ? ` Check IsAspire() before using it.` : '';
+        this.report(node, `${name} is not available in ${this.product} (${describeEditions(entry)}).${hint}`, DiagnosticCode.apiEdition);
+    }
+
+    /**
+     * Resolve the class of a receiver expression, or null when it can't be
+     * inferred or its members aren't known
+     */
+    private receiverClass(base: Expression): ApiClass | null {
+        const type = inferExpressionType(this.analysis.scopes, base, this.classes, this.globalFunctions);
+        const cls = type ? findClassByName(this.classes, type) : undefined;
+        return cls ? checkableClass(getClassWithInheritance(cls, this.classes)) : null;
+    }
+
+    /**
+     * Resolve `ClassName` used directly as a receiver (e.g. MaterialBlock.BLC)
+     */
+    private staticClass(base: Expression): ApiClass | null {
+        if (base.type !== 'Identifier') {
+            return null;
+        }
+        const symbol = resolveName(this.analysis.scopes, base.name, base.start);
+        if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+            return null;
+        }
+        const cls = findClassByName(this.classes, base.name);
+        return cls ? checkableClass(getClassWithInheritance(cls, this.classes)) : null;
+    }
+
+    check(node: Node, parent: Node | null) {
+        switch (node.type) {
+            case 'MethodCallExpression':
+                this.checkMethodCall(node.base, node.identifier, node.arguments);
+                break;
+            case 'CallExpression':
+                if (node.base.type === 'Identifier') {
+                    this.checkGlobalCall(node.base, node.arguments);
+                } else if (node.base.type === 'MemberExpression' && node.base.indexer === '.') {
+                    this.checkLibraryCall(node.base, node.arguments);
+                }
+                break;
+            case 'MemberExpression':
+                this.checkMemberAccess(node, parent);
+                break;
+            case 'AssignmentStatement':
+                for (const target of node.variables) {
+                    if (target.type === 'MemberExpression') {
+                        this.checkPropertyWrite(target);
+                    }
+                }
+                break;
+        }
+    }
+
+    private checkMethodCall(base: Expression, identifier: Identifier, args: Expression[]) {
+        const cls = this.receiverClass(base);
+        if (!cls) {
+            return;
+        }
+        const name = identifier.name;
+        const method = (cls.methods || []).find(m => m.name === name);
+        if (!method) {
+            if ((cls.properties || []).some(p => p.name === name)) {
+                this.report(identifier, `'${name}' is a property of ${cls.name}, not a method. Use '.${name}' instead.`, DiagnosticCode.unknownMethod);
+                return;
+            }
+            const suggestion = findClosestName(name, (cls.methods || []).map(m => m.name));
+            const hint = suggestion ? ` Did you mean '${suggestion}'?` : '';
+            this.report(identifier, `Unknown method '${name}' on ${cls.name}.${hint}`, DiagnosticCode.unknownMethod);
+            return;
+        }
+        this.checkAvailability(identifier, method, `${cls.name}:${name}`);
+        if (method.signature && !hasExpandingLastArgument(args) && !acceptsArgumentCount(method.signature.parameters, args.length)) {
+            this.report(identifier,
+                `${cls.name}:${name} expects ${describeCounts([method.signature.parameters])} argument(s) but got ${args.length}.`,
+                DiagnosticCode.argumentCount);
+        }
+        if (method.signature) {
+            this.checkHtmlIds(method.signature.parameters, args);
+        }
+    }
+
+    /**
+     * Report string arguments naming dialog controls that the gadget's HTML
+     * page doesn't have. Nothing is reported when no page was found.
+     */
+    private checkHtmlIds(parameters: ApiParameter[], args: Expression[]) {
+        if (this.pages.length === 0) {
+            return;
+        }
+        const ids = [...new Set(this.pages.flatMap(page => page.controls.map(c => c.id)))];
+        parameters.forEach((parameter, i) => {
+            const arg = args[i];
+            if (!parameter.htmlId || !arg || arg.type !== 'StringLiteral' || ids.includes(arg.value)) {
+                return;
+            }
+            const pages = this.pages.map(page => path.basename(page.uri.fsPath)).join(', ');
+            const suggestion = findClosestName(arg.value, ids);
+            const hint = suggestion ? ` Did you mean '${suggestion}'?` : '';
+            this.report(arg, `No element with id '${arg.value}' in ${pages}.${hint}`, DiagnosticCode.unknownHtmlId);
+        });
+    }
+
+    private checkGlobalCall(callee: Identifier, args: Expression[]) {
+        const symbol = resolveName(this.analysis.scopes, callee.name, callee.start);
+        if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+            // Defined in this file - not an API call
+            return;
+        }
+        const name = callee.name;
+        const countable = !hasExpandingLastArgument(args);
+
+        const cls = findClassByName(this.classes, name);
+        if (cls) {
+            this.checkAvailability(callee, cls, name);
+            const constructors = cls.constructors || [];
+            if (countable && constructors.length > 0 && !constructors.some(c => acceptsArgumentCount(c.parameters, args.length))) {
+                this.report(callee,
+                    `No ${name} constructor takes ${args.length} argument(s). Expected ${describeCounts(constructors.map(c => c.parameters))}.`,
+                    DiagnosticCode.argumentCount);
+            }
+            return;
+        }
+
+        const fn = this.globalFunctions.find(f => f.name === name);
+        if (fn) {
+            this.checkAvailability(callee, fn, name);
+            if (countable && fn.signature && !acceptsArgumentCount(fn.signature.parameters, args.length)) {
+                this.report(callee,
+                    `${name} expects ${describeCounts([fn.signature.parameters])} argument(s) but got ${args.length}.`,
+                    DiagnosticCode.argumentCount);
+            }
+            return;
+        }
+
+        const basicFn = findLibraryFunction(this.stdlib, null, name);
+        if (basicFn) {
+            this.checkLibraryFunction(callee, basicFn, args);
+            return;
+        }
+
+        // Globals may come from other gadget files, so only names that look
+        // like a misspelled API or Lua function are flagged, and not those
+        // another .lua file of the workspace defines
+        if (this.workspaceGlobals.has(name)) {
+            return;
+        }
+        const basicNames = this.stdlib.libraries.filter(l => l.table === null).flatMap(l => l.functions.map(f => f.name));
+        const suggestion = findClosestName(name, [...this.globalFunctions.map(f => f.name), ...basicNames]);
+        if (suggestion) {
+            this.report(callee, `Unknown function '${name}'. Did you mean '${suggestion}'?`, DiagnosticCode.unknownFunction);
+        }
+    }
+
+    /**
+     * Check a call to a function of a Lua library table, e.g. string.format(...)
+     */
+    private checkLibraryCall(callee: MemberExpression, args: Expression[]) {
+        const base = callee.base;
+        if (base.type !== 'Identifier') {
+            return;
+        }
+        const symbol = resolveName(this.analysis.scopes, base.name, base.start);
+        if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+            return;
+        }
+        const fn = findLibraryFunction(this.stdlib, base.name, callee.identifier.name);
+        if (fn) {
+            this.checkLibraryFunction(callee, fn, args);
+        }
+    }
+
+    /**
+     * Report a Lua library function the runtime's Lua version lacks or the
+     * gadget sandbox blocks, and calls with the wrong number of arguments
+     */
+    private checkLibraryFunction(callee: Node, fn: ApiFunction, args: Expression[]) {
+        if (!isInRuntime(fn, this.stdlib)) {
+            this.report(callee, `${fn.name} is not available in Lua ${this.stdlib.runtime} (${describeLuaVersions(fn)}).`, DiagnosticCode.luaVersion);
+        }
+        if (fn.unavailableInGadgets) {
+            this.report(callee, `${fn.name} is not allowed in gadgets.`, DiagnosticCode.gadgetSandbox);
+        }
+        if (!hasExpandingLastArgument(args) && !acceptsArgumentCount(fn.signature.parameters, args.length)) {
+            this.report(callee,
+                `${fn.name} expects ${describeCounts([fn.signature.parameters])} argument(s) but got ${args.length}.`,
+                DiagnosticCode.argumentCount);
+        }
+    }
+
+    private checkMemberAccess(member: MemberExpression, parent: Node | null) {
+        if (member.indexer !== '.') {
+            return;
+        }
+        // Assignment targets are checked separately as writes
+        if (parent && parent.type === 'AssignmentStatement' && parent.variables.includes(member)) {
+            return;
+        }
+        // Function declarations (function obj.name()) define, not read
+        if (parent && parent.type === 'FunctionDeclaration') {
+            return;
+        }
+
+        const staticCls = this.staticClass(member.base);
+        const cls = staticCls || this.receiverClass(member.base);
+        if (!cls) {
+            return;
+        }
+        const name = member.identifier.name;
+        const value = (cls.properties || []).find(p => p.name === name) || (cls.constants || []).find(c => c.name === name);
+        if (value) {
+            this.checkAvailability(member.identifier, value, `${cls.name}.${name}`);
+            return;
+        }
+        if ((cls.methods || []).some(m => m.name === name)) {
+            // obj.Method(obj, ...) is a legal explicit-self call
+            if (parent && parent.type === 'CallExpression' && parent.base === member) {
+                return;
+            }
+            this.report(member.identifier, `'${name}' is a method of ${cls.name}. Use ':${name}()' to call it.`, DiagnosticCode.unknownProperty);
+            return;
+        }
+        const candidates = [...(cls.properties || []).map(p => p.name), ...(cls.constants || []).map(c => c.name)];
+        const suggestion = findClosestName(name, candidates);
+        const hint = suggestion ? ` Did you mean '${suggestion}'?` : '';
+        this.report(member.identifier, `Unknown property '${name}' on ${cls.name}.${hint}`, DiagnosticCode.unknownProperty);
+    }
+
+    /**
+     * Check the types named in ---@type/---@param/---@return annotations.
+     * Gadgets may name their own types, so only near-misses of API class
+     * names are reported.
+     */
+    checkAnnotations() {
+        const classNames = this.classes.map(c => c.name);
+        for (const doc of this.analysis.scopes.annotations.comments) {
+            const tags = [...(doc.type ? [doc.type] : []), ...doc.params, ...doc.returns];
+            for (const tag of tags) {
+                for (const part of tag.type.split(/[|,]/)) {
+                    const name = part.trim().replace(/\?$/, '').replace(/(\[\])+$/, '');
+                    if (!name || LUA_TYPES.has(name) || findClassByName(this.classes, name)) {
+                        continue;
+                    }
+                    const suggestion = findClosestName(name, classNames);
+                    if (suggestion) {
+                        this.report({ start: tag.typeStart, end: tag.typeEnd },
+                            `Unknown type '${name}' in annotation. Did you mean '${suggestion}'?`, DiagnosticCode.unknownType);
+                    }
+                }
+            }
+        }
+    }
+
+    private checkPropertyWrite(target: MemberExpression) {
+        const cls = this.receiverClass(target.base);
+        if (!cls) {
+            return;
+        }
+        const name = target.identifier.name;
+        const property = (cls.properties || []).find(p => p.name === name);
+        if (!property) {
+            const suggestion = findClosestName(name, (cls.properties || []).map(p => p.name));
+            const hint = suggestion ? ` Did you mean '${suggestion}'?` : '';
+            this.report(target.identifier, `Unknown property '${name}' on ${cls.name}.${hint}`, DiagnosticCode.unknownProperty);
+        } else if (property.readOnly) {
+            this.report(target.identifier, `Property '${name}' of ${cls.name} is read-only.`, DiagnosticCode.readOnlyProperty);
+        } else {
+            this.checkAvailability(target.identifier, property, `${cls.name}.${name}`);
+        }
+    }
+}
+
+/**
+ * Check a document against the Vectric API and return the problems found.
+ * `workspaceGlobals` are the globals other workspace files define.
+ */
+export function collectDiagnostics(
+    document: vscode.TextDocument, classes: ApiClass[], globalFunctions: ApiFunction[], stdlib: LuaStdlib, workspaceGlobals: Set<string>
+): vscode.Diagnostic[] {
+    const analysis = getDocumentAnalysis(document);
+    const checker = new DiagnosticChecker(
+        document, analysis, classes, globalFunctions, targetApiVersion(document), targetProduct(document), findGadgetPages(document, analysis), stdlib,
+        workspaceGlobals
+    );
+    walkTree(analysis.chunk, (node, parent) => checker.check(node, parent));
+    checker.checkAnnotations();
+    return checker.diagnostics;
+}
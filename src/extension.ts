@@ -1,8 +1,34 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
+import {
+    ApiClass, ApiFunction, ApiSignature, Versioned, EditionTagged, ApiParameter, ApiProperty, ApiMethod, ApiConstructor, ApiConstant,
+    loadGlobalFunctions, loadClasses, loadBundledVersion, mergeFunctions, mergeClasses, findClassByName, getClassWithInheritance, findDeclaringClass,
+    isOptionalParameter, isVariadicParameter
+} from './vectricApi';
+import { TypedValue, inferReceiverType, inferSymbolType, findValuesOfType, isLocalName } from './typeInference';
+import { getDocumentAnalysis, forgetDocument, recordDocumentChange, isInCommentOrString, LuaAnalysis } from './luaDocument';
+import { MemberAccess, FunctionExpression, findMemberAt } from './luaParser';
+import { LuaSymbol, SymbolAssignment, resolveName, findSymbolAt, findFieldAt } from './luaScope';
+import { collectDiagnostics } from './diagnostics';
+import { ApiProblem, validateApiFiles, validateLuaStdlib, formatApiProblem } from './apiValidation';
+import { loadApiOverlays, watchApiOverlays } from './apiOverlay';
+import { isAvailableIn, describeVersions, targetApiVersion, configuredApiVersion, ApiSet, loadApiSets, selectApiSet } from './apiVersions';
+import { isAvailableFor, describeEditions, targetProduct, isAspireGuarded } from './apiEditions';
+import { CallContext, findCallContext, findMemberAccessAt } from './callContext';
+import { findGadgetPages, isGadgetPage, watchGadgetPages } from './gadgetHtml';
+import { findDefinitions } from './definitions';
+import { watchWorkspaceFiles, fileFromDocument, getWorkspaceFiles, globalsDefinedIn } from './workspaceIndex';
+import { collectDocumentSymbols, collectWorkspaceSymbols, forgetWorkspaceSymbols } from './symbols';
+import { GADGET_SNIPPETS, previewSnippet } from './gadgetTemplates';
+import { NEW_GADGET_COMMAND, newGadget } from './newGadget';
+import { PROVIDED_KINDS, provideCodeActions } from './codeActions';
+import { SEMANTIC_LEGEND, provideSemanticTokens } from './semanticTokens';
+import { affectsInlayHints, provideInlayHints } from './inlayHints';
+import { findReferences, prepareRename, renameSymbol } from './references';
+import { prepareCallHierarchy, findIncomingCalls, findOutgoingCalls } from './callHierarchy';
+import { LuaStdlib, LuaLibrary, loadLuaStdlib, findLibrary, findLibraryFunction, shortName, isInRuntime, describeLuaVersions } from './luaStdlib';
 
 // ***** Important Debugging Note *****
 // If you get a powershell security warning when trying to run or debug the extension,
@@ -10,168 +36,6 @@ import * as path from 'path';
 // npm run watch - there's an issue with the node.js npm.ps1 script not being digitally signed.
 // **************************************
 
-// ==================== Type Definitions ====================
-
-interface ApiParameter {
-    label: string;
-    documentation: string;
-}
-
-interface ApiSignature {
-    label: string;
-    documentation: string;
-    parameters: ApiParameter[];
-    returns?: string;
-}
-
-interface ApiProperty {
-    name: string;
-    kind: string;
-    detail: string;
-    documentation: string;
-    readOnly: boolean;
-}
-
-interface ApiMethod {
-    name: string;
-    kind: string;
-    detail: string;
-    documentation: string;
-    signature: ApiSignature;
-}
-
-interface ApiConstructor {
-    label: string;
-    documentation: string;
-    parameters: ApiParameter[];
-}
-
-interface ApiConstant {
-    name: string;
-    value: string;
-}
-
-interface ApiClass {
-    name: string;
-    kind: string;
-    detail: string;
-    documentation: string;
-    constructors?: ApiConstructor[];
-    properties?: ApiProperty[];
-    methods?: ApiMethod[];
-    constants?: ApiConstant[];
-    operators?: string[];
-}
-
-interface ApiFunction {
-    name: string;
-    kind: string;
-    detail: string;
-    documentation: string;
-    signature: ApiSignature;
-}
-
-interface GlobalCategory {
-    version: string;
-    category: string;
-    functions: ApiFunction[];
-}
-
-interface ClassCategory {
-    version: string;
-    category: string;
-    description: string;
-    classes: ApiClass[];
-}
-
-interface ApiIndex {
-    version: string;
-    date: string;
-    description: string;
-    globals: {
-        categories: Array<{
-            id: string;
-            name: string;
-            file: string;
-            count: number;
-            description: string;
-        }>;
-        total_functions: number;
-    };
-    classes: {
-        categories: Array<{
-            id: string;
-            name: string;
-            file: string;
-            count: number;
-            description: string;
-        }>;
-        total_classes: number;
-    };
-}
-
-// ==================== API Loading Functions ====================
-
-/**
- * Load all global functions from categorized JSON files
- */
-function loadGlobalFunctions(extensionPath: string): ApiFunction[] {
-    const apiPath = path.join(extensionPath, 'vectric-api');
-    const indexPath = path.join(apiPath, 'index.json');
-    
-    try {
-        const indexData: ApiIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
-        const allFunctions: ApiFunction[] = [];
-        
-        // Load each global category
-        for (const category of indexData.globals.categories) {
-            const categoryPath = path.join(apiPath, category.file);
-            if (fs.existsSync(categoryPath)) {
-                const categoryData: GlobalCategory = JSON.parse(
-                    fs.readFileSync(categoryPath, 'utf8')
-                );
-                allFunctions.push(...categoryData.functions);
-            }
-        }
-        
-        console.log(`Loaded ${allFunctions.length} global functions from ${indexData.globals.categories.length} categories`);
-        return allFunctions;
-    } catch (error) {
-        console.error('Error loading global functions:', error);
-        return [];
-    }
-}
-
-/**
- * Load all classes from categorized JSON files
- */
-function loadClasses(extensionPath: string): ApiClass[] {
-    const apiPath = path.join(extensionPath, 'vectric-api');
-    const indexPath = path.join(apiPath, 'index.json');
-    
-    try {
-        const indexData: ApiIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
-        const allClasses: ApiClass[] = [];
-        
-        // Load each class category
-        for (const category of indexData.classes.categories) {
-            const categoryPath = path.join(apiPath, category.file);
-            if (fs.existsSync(categoryPath)) {
-                const categoryData: ClassCategory = JSON.parse(
-                    fs.readFileSync(categoryPath, 'utf8')
-                );
-                allClasses.push(...categoryData.classes);
-            }
-        }
-        
-        console.log(`Loaded ${allClasses.length} classes from ${indexData.classes.categories.length} categories`);
-        return allClasses;
-    } catch (error) {
-        console.error('Error loading classes:', error);
-        return [];
-    }
-}
-
 // ==================== Helper Functions ====================
 
 /**
@@ -185,6 +49,16 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
     const wordRange = document.getWordRangeAtPosition(position);
     const currentWord = wordRange ? document.getText(wordRange) : '';
     
+    // Nothing to complete inside comments and string literals
+    if (isInCommentOrString(getDocumentAnalysis(document), document.offsetAt(position))) {
+        return {
+            type: 'keyword',
+            objectName: null,
+            className: null,
+            prefix: ''
+        };
+    }
+    
     // List of Lua built-in types - don't provide completions when typing these
     // These are more common in code than keywords, so check first
     const luaBuiltInTypes = [
@@ -251,37 +125,21 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
         }
     }
     
-    // Check if we're typing after a dot (.)
-    const dotMatch = textBeforeCursor.match(/(\w+)\.(\w*)$/);
-    if (dotMatch) {
-        const objectName = dotMatch[1];
-        const prefix = dotMatch[2] || '';
+    // Check if we're typing after a dot (.) or colon (:), whether the receiver
+    // is a plain name or a chain such as job:GetActiveLayer(): or a.b.c.
+    const analysis = getDocumentAnalysis(document);
+    const member = findMemberAccessAt(analysis, document.offsetAt(position));
+    if (member) {
+        const objectName = member.base.type === 'Identifier' ? member.base.name : null;
         
-        // Try to infer the type of this variable
-        const inferredType = inferVariableType(document, position, objectName, classes, globalFunctions);
+        // Try to infer the type of the receiver
+        const inferredType = inferReceiverType(analysis.scopes, member.base, classes, globalFunctions);
         
         return {
-            type: 'member-access',
+            type: member.indexer === '.' ? 'member-access' : 'method-access',
             objectName: objectName,
             className: inferredType || objectName, // Use inferred type or assume it's a class name
-            prefix: prefix
-        };
-    }
-    
-    // Check if we're typing after a colon (:)
-    const colonMatch = textBeforeCursor.match(/(\w+):(\w*)$/);
-    if (colonMatch) {
-        const objectName = colonMatch[1];
-        const prefix = colonMatch[2] || '';
-        
-        // Try to infer the type of this variable
-        const inferredType = inferVariableType(document, position, objectName, classes, globalFunctions);
-        
-        return {
-            type: 'method-access',
-            objectName: objectName,
-            className: inferredType || objectName,
-            prefix: prefix
+            prefix: member.identifier.name
         };
     }
     
@@ -290,101 +148,73 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
     // Pattern: FunctionName( or FunctionName(arg1, 
     // Handle nested calls like: OuterFunc(InnerFunc(
     
-    console.log(`[Detection] Checking for function call, text before cursor: "${textBeforeCursor}"`);
-    
-    // Find the last unmatched opening parenthesis
-    let depth = 0;
-    let lastFunctionStart = -1;
-    
-    for (let i = textBeforeCursor.length - 1; i >= 0; i--) {
-        if (textBeforeCursor[i] === ')') {
-            depth++;
-        } else if (textBeforeCursor[i] === '(') {
-            if (depth === 0) {
-                // This is an unclosed paren - find the function name before it
-                lastFunctionStart = i;
-                console.log(`[Detection] Found unclosed ( at position ${i}`);
-                break;
-            }
-            depth--;
-        }
-    }
+    const call = findCallContext(analysis, document.offsetAt(position));
     
-    console.log(`[Detection] lastFunctionStart = ${lastFunctionStart}`);
+    console.log(`[Detection] Innermost call: ${call ? `${call.functionName}, argument ${call.argumentIndex}` : 'none'}`);
     
-    if (lastFunctionStart >= 0) {
-        // Extract function name before the (
-        const beforeParen = textBeforeCursor.substring(0, lastFunctionStart);
-        const functionNameMatch = beforeParen.match(/(\w+)$/);
+    // Only plain calls can be API globals or constructors (obj:Method( is not).
+    // A local function or variable shadows any API function of the same name
+    if (call && call.receiver === null && !isLocalName(document, position, call.functionName)) {
+        const functionName = call.functionName;
+        // Commas in nested calls, tables and strings are already excluded
+        const commaCount = call.argumentIndex;
         
-        if (functionNameMatch) {
-            const functionName = functionNameMatch[1];
-            const afterParen = textBeforeCursor.substring(lastFunctionStart + 1);
+        // First check if it's a global function
+        const func = globalFunctions.find(f => f.name === functionName);
+        if (func && func.signature && func.signature.parameters) {
+            console.log(`[Global Function] ${functionName}, commas: ${commaCount}`);
             
-            console.log(`[Function Call] Detected: ${functionName}, text after paren: "${afterParen}"`);
-            
-            // First check if it's a global function
-            const func = globalFunctions.find(f => f.name === functionName);
-            if (func && func.signature && func.signature.parameters) {
-                // Count how many commas we have to determine which parameter we're on
-                const commaCount = (afterParen.match(/,/g) || []).length;
-                
-                console.log(`[Global Function] ${functionName}, commas: ${commaCount}`);
-                
-                // Get the expected parameter type
-                if (commaCount < func.signature.parameters.length) {
-                    const param = func.signature.parameters[commaCount];
-                    // Extract type from parameter documentation (e.g., "vec: Vector2D - description")
-                    const typeMatch = param.documentation.match(/:\s*(\w+)/);
-                    if (typeMatch) {
-                        const expectedType = typeMatch[1];
-                        console.log(`[Global Function] Expected type: ${expectedType}`);
-                        return {
-                            type: 'function-parameter',
-                            objectName: null,
-                            className: expectedType,
-                            prefix: '',
-                            functionName: functionName,
-                            parameterIndex: commaCount
-                        };
-                    }
+            // Get the expected parameter type
+            if (commaCount < func.signature.parameters.length) {
+                const param = func.signature.parameters[commaCount];
+                // Extract type from parameter documentation (e.g., "vec: Vector2D - description")
+                const typeMatch = param.documentation.match(/:\s*(\w+)/);
+                if (typeMatch) {
+                    const expectedType = typeMatch[1];
+                    console.log(`[Global Function] Expected type: ${expectedType}`);
+                    return {
+                        type: 'function-parameter',
+                        objectName: null,
+                        className: expectedType,
+                        prefix: '',
+                        functionName: functionName,
+                        parameterIndex: commaCount
+                    };
                 }
             }
-            
-            // Also check if it's a class constructor
-            const cls = classes.find(c => c.name === functionName);
-            if (cls && cls.constructors && cls.constructors.length > 0) {
-                // Count how many commas we have to determine which parameter we're on
-                const commaCount = (afterParen.match(/,/g) || []).length;
-            
+        }
+        
+        // Also check if it's a class constructor
+        const cls = classes.find(c => c.name === functionName);
+        if (cls && cls.constructors && cls.constructors.length > 0) {
             console.log(`[Constructor] Function: ${functionName}, commaCount: ${commaCount}`);
             console.log(`[Constructor] Available constructors: ${cls.constructors.map(c => c.label).join(', ')}`);
-            
+        
             // Find the best matching constructor based on parameter count
             // Try to find one that has at least commaCount+1 parameters
             let constructor = cls.constructors.find(c => c.parameters.length > commaCount);
-            
+        
             // If no match, use the first one (fallback)
             if (!constructor) {
                 constructor = cls.constructors[0];
             }
-            
+        
             console.log(`[Constructor] Selected: ${constructor.label}`);
-            
+        
             if (constructor.parameters && commaCount < constructor.parameters.length) {
                 const param = constructor.parameters[commaCount];
-                
+            
                 let expectedType = null;
-                
+            
                 // First try to extract type from the constructor label
                 // e.g., "Vector2D(x: number, y: number)" or "Point2D(pt: Point2D)"
                 const labelMatch = constructor.label.match(/\([^)]*\)/);
                 if (labelMatch) {
                     const paramsSignature = labelMatch[0].slice(1, -1); // Remove parentheses
                     const paramsList = paramsSignature.split(',').map(p => p.trim());
-                    
+                
                     console.log(`[Constructor] Params list:`, paramsList);
-                    
+                
                     if (commaCount < paramsList.length) {
                         const paramSignature = paramsList[commaCount];
                         console.log(`[Constructor] Param ${commaCount}: ${paramSignature}`);
@@ -396,7 +226,7 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
                         }
                     }
                 }
-                
+            
                 // If we didn't find it in the label, try the parameter itself
                 if (!expectedType) {
                     console.log(`[Constructor] No type from label, trying parameter object`);
@@ -416,9 +246,9 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
                         }
                     }
                 }
-                
+            
                 console.log(`[Constructor] Final expected type: ${expectedType}`);
-                
+            
                 if (expectedType) {
                     return {
                         type: 'function-parameter',
@@ -432,6 +262,21 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
             }
         }
     }
+    
+    // obj:Method( - the receiver's inferred class gives the expected type
+    const method = call ? findCalledMethod(document, call, classes, globalFunctions) : undefined;
+    const parameter = call && method?.signature?.parameters[call.argumentIndex];
+    const parameterType = parameter ? parameter.documentation.match(/:\s*(\w+)/) : null;
+    if (call && parameterType) {
+        console.log(`[Method] ${call.functionName}, argument ${call.argumentIndex}, expected type: ${parameterType[1]}`);
+        return {
+            type: 'function-parameter',
+            objectName: null,
+            className: parameterType[1],
+            prefix: '',
+            functionName: call.functionName,
+            parameterIndex: call.argumentIndex
+        };
     }
     
     // Default: typing a new identifier
@@ -444,219 +289,53 @@ function getCompletionContext(document: vscode.TextDocument, position: vscode.Po
 }
 
 /**
- * Infer the type of a variable by looking for its assignment
+ * The API method an obj:Method( call resolves to through the receiver's inferred type
  */
-function inferVariableType(document: vscode.TextDocument, position: vscode.Position, varName: string, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
-    // Search backwards from current position to find variable declaration/assignment
-    const currentLine = position.line;
-    
-    // Look up to 100 lines back (or start of file)
-    const searchStart = Math.max(0, currentLine - 100);
-    
-    for (let lineNum = currentLine; lineNum >= searchStart; lineNum--) {
-        const line = document.lineAt(lineNum).text;
-        
-        // Pattern 1: local varName = ClassName(...)
-        // Also handles: local var1, var2 = ClassName(...)
-        // IMPORTANT: Only infers type if varName is the FIRST variable in the assignment
-        
-        // First check if varName appears after a comma (meaning it's NOT the first variable)
-        const notFirstVarLocal = new RegExp(`local\\s+\\w+\\s*,\\s*.*\\b${varName}\\b.*=`);
-        if (notFirstVarLocal.test(line)) {
-            // varName is not the first variable, skip this pattern
-            continue;
-        }
-        
-        // Now check if varName is the first variable in a local constructor assignment
-        const localAssignment = new RegExp(`local\\s+${varName}\\s*(?:,\\s*\\w+)?\\s*=\\s*(\\w+)\\s*\\(`);
-        const localMatch = line.match(localAssignment);
-        if (localMatch) {
-            const className = localMatch[1];
-            // Verify this is actually a known class
-            if (classes.find(cls => cls.name === className)) {
-                return className;
-            }
-        }
-        
-        // Pattern 2: varName = ClassName(...)
-        // Also handles: var1, var2 = ClassName(...)
-        // IMPORTANT: Only infers type if varName is the FIRST variable in the assignment
-        
-        // First check if varName appears after a comma (meaning it's NOT the first variable)
-        const notFirstVarAssign = new RegExp(`\\w+\\s*,\\s*.*\\b${varName}\\b.*=`);
-        if (notFirstVarAssign.test(line)) {
-            // varName is not the first variable, skip this pattern
-            continue;
-        }
-        
-        // Now check if varName is the first variable in an assignment
-        const assignment = new RegExp(`\\b${varName}\\s*(?:,\\s*\\w+)?\\s*=\\s*(\\w+)\\s*\\(`);
-        const assignMatch = line.match(assignment);
-        if (assignMatch) {
-            const className = assignMatch[1];
-            // Verify this is actually a known class
-            if (classes.find(cls => cls.name === className)) {
-                return className;
-            }
-        }
-        
-        // Pattern 3: varName = otherVar.PropertyName (property access)
-        const propertyAssignment = new RegExp(`\\b${varName}\\s*=\\s*(\\w+)\\.(\\w+)`);
-        const propMatch = line.match(propertyAssignment);
-        if (propMatch) {
-            const objectName = propMatch[1];
-            const propertyName = propMatch[2];
-            
-            // First, try to infer the type of the object being accessed
-            const objectType = inferVariableType(document, new vscode.Position(lineNum, 0), objectName, classes, globalFunctions);
-            if (objectType) {
-                // Find the class and check the property's type
-                const cls = classes.find(c => c.name === objectType);
-                if (cls && cls.properties) {
-                    const property = cls.properties.find(p => p.name === propertyName);
-                    if (property) {
-                        // Extract class name from property detail (e.g., "SelectionList" from "SelectionList")
-                        // Check if the property type is a known class
-                        if (classes.find(c => c.name === property.detail)) {
-                            return property.detail;
-                        }
-                    }
-                }
-            }
-        }
-        
-        // Pattern 4: varName = FunctionName(...) (function return type)
-        // Also handles: local var1, var2 = FunctionName(...)
-        // IMPORTANT: Only infers type if varName is the FIRST variable in the assignment
-        
-        // First check if varName appears after a comma (meaning it's NOT the first variable)
-        const notFirstVarFunc = new RegExp(`(?:local\\s+)?\\w+\\s*,\\s*.*\\b${varName}\\b.*=`);
-        if (notFirstVarFunc.test(line)) {
-            // varName is not the first variable, skip this pattern
-            continue;
-        }
-        
-        // Now check if varName is the first variable in a function assignment
-        const functionAssignment = new RegExp(`(?:local\\s+)?\\b${varName}\\s*(?:,\\s*\\w+)?\\s*=\\s*(\\w+)\\s*\\(`);
-        const funcMatch = line.match(functionAssignment);
-        if (funcMatch) {
-            const functionName = funcMatch[1];
-            
-            // Check if this is a global function with a known return type
-            const globalFunc = globalFunctions.find(f => f.name === functionName);
-            if (globalFunc && globalFunc.signature && globalFunc.signature.returns) {
-                const returnType = globalFunc.signature.returns;
-                // Handle multiple return values - take first return type
-                const firstReturnType = returnType.split(',')[0].trim();
-                // Check if the return type is a known class
-                const foundClass = classes.find(c => c.name === firstReturnType);
-                if (foundClass) {
-                    return firstReturnType;
-                }
-            }
-        }
-        
-        // Pattern 4b: varName = object:MethodName(...) (method return type)
-        // Also handles: local var1, var2 = object:MethodName(...)
-        // IMPORTANT: Only infers type if varName is the FIRST variable in the assignment
-        
-        // First check if varName appears after a comma (meaning it's NOT the first variable)
-        const notFirstVar = new RegExp(`(?:local\\s+)?\\w+\\s*,\\s*.*\\b${varName}\\b.*=`);
-        if (notFirstVar.test(line)) {
-            // varName is not the first variable, skip this pattern
-            continue;
-        }
-        
-        // Now check if varName is the first variable in a method assignment
-        const methodAssignment = new RegExp(`(?:local\\s+)?\\b${varName}\\s*(?:,\\s*\\w+)?\\s*=\\s*(\\w+):(\\w+)\\s*\\(`);
-        const methodMatch = line.match(methodAssignment);
-        if (methodMatch) {
-            const objectName = methodMatch[1];
-            const methodName = methodMatch[2];
-            
-            // First, infer the type of the object
-            const objectType = inferVariableType(document, new vscode.Position(lineNum, 0), objectName, classes, globalFunctions);
-            
-            if (objectType) {
-                // Find the class and look up the method
-                const cls = classes.find(c => c.name === objectType);
-                
-                if (cls && cls.methods) {
-                    const method = cls.methods.find(m => m.name === methodName);
-                    
-                    if (method && method.signature && method.signature.returns) {
-                        const returnType = method.signature.returns;
-                        
-                        // Handle multiple return values (e.g., "CadObject, POSITION")
-                        // Take the first return type
-                        const firstReturnType = returnType.split(',')[0].trim();
-                        
-                        // Check if it's a known class
-                        const foundClass = classes.find(c => c.name === firstReturnType);
-                        
-                        if (foundClass) {
-                            return firstReturnType;
-                        }
-                    }
-                }
-            }
-        }
-        
-        // Pattern 5: for varName in ... or function varName(...) - stop searching
-        const declarationPattern = new RegExp(`\\b(for|function)\\s+${varName}\\b`);
-        if (declarationPattern.test(line)) {
-            break; // Different kind of declaration, stop searching
-        }
+function findCalledMethod(document: vscode.TextDocument, call: CallContext, classes: ApiClass[], globalFunctions: ApiFunction[]): ApiMethod | undefined {
+    if (!call.isMethod || !call.receiverExpression) {
+        return undefined;
     }
-    
-    return null;
+    const receiverType = inferReceiverType(getDocumentAnalysis(document).scopes, call.receiverExpression, classes, globalFunctions);
+    const cls = receiverType ? findClassByName(classes, receiverType) : undefined;
+    return cls ? (getClassWithInheritance(cls, classes).methods || []).find(m => m.name === call.functionName) : undefined;
 }
 
 /**
- * Find class by name
+ * Inside a string argument that names a dialog control (dialog:GetDoubleField("|),
+ * offer the ids of the gadget's HTML page. Returns null anywhere else.
  */
-function findClassByName(classes: ApiClass[], name: string): ApiClass | undefined {
-    return classes.find(cls => cls.name === name);
-}
+function createHtmlIdCompletions(document: vscode.TextDocument, position: vscode.Position, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.CompletionItem[] | null {
+    const analysis = getDocumentAnalysis(document);
+    const text = document.getText();
+    const offset = document.offsetAt(position);
 
-/**
- * Get all members of a class including inherited members from base classes
- */
-function getClassWithInheritance(cls: ApiClass, classes: ApiClass[]): ApiClass {
-    // Check if this class extends another class
-    const extendsMatch = cls.detail.match(/extends\s+(\w+)/);
-    if (!extendsMatch) {
-        // No inheritance, return as-is
-        return cls;
+    // The string at the cursor, which may not be closed yet
+    const index = analysis.tokens.findIndex(t => t.type === 'string' && t.start < offset && offset <= t.end);
+    const token = analysis.tokens[index];
+    const quote = token ? text[token.start] : '';
+    if (!token || (quote !== '"' && quote !== "'")) {
+        return null;
     }
-    
-    const baseClassName = extendsMatch[1];
-    const baseClass = findClassByName(classes, baseClassName);
-    
-    if (!baseClass) {
-        // Base class not found, return as-is
-        return cls;
+    const closed = token.end - token.start >= 2 && text[token.end - 1] === quote;
+    const previous = analysis.tokens[index - 1];
+    if ((closed && offset === token.end) || !previous || previous.type !== 'symbol' || (previous.value !== '(' && previous.value !== ',')) {
+        return null;
     }
-    
-    // Recursively get base class with its inheritance
-    const baseWithInheritance = getClassWithInheritance(baseClass, classes);
-    
-    // Merge properties, methods, and constants
-    return {
-        ...cls,
-        properties: [
-            ...(baseWithInheritance.properties || []),
-            ...(cls.properties || [])
-        ],
-        methods: [
-            ...(baseWithInheritance.methods || []),
-            ...(cls.methods || [])
-        ],
-        constants: [
-            ...(baseWithInheritance.constants || []),
-            ...(cls.constants || [])
-        ]
-    };
+
+    const call = findCallContext(analysis, token.start);
+    const method = call ? findCalledMethod(document, call, classes, globalFunctions) : undefined;
+    const parameter = call && method?.signature?.parameters[call.argumentIndex];
+    if (!parameter || !parameter.htmlId) {
+        return null;
+    }
+
+    const range = new vscode.Range(document.positionAt(token.start + 1), closed ? document.positionAt(token.end - 1) : position);
+    return findGadgetPages(document, analysis).flatMap(page => page.controls.map(control => {
+        const item = new vscode.CompletionItem(control.id, vscode.CompletionItemKind.Value);
+        item.detail = `<${control.tag}${control.type ? ` type="${control.type}"` : ''}> in ${path.basename(page.uri.fsPath)}`;
+        item.range = range;
+        return item;
+    }));
 }
 
 /**
@@ -672,10 +351,76 @@ function createSnippetFromSignature(signature: ApiSignature): string {
     return `${funcName}(${params})$0`;
 }
 
+/**
+ * Create a completion item for an in-scope value of an expected type
+ */
+function createTypedValueCompletion(value: TypedValue, expectedType: string, index: number): vscode.CompletionItem {
+    const name = value.symbol.name;
+    let item: vscode.CompletionItem;
+    if (value.method) {
+        item = new vscode.CompletionItem(`${name}:${value.method.name}()`, vscode.CompletionItemKind.Method);
+        item.insertText = new vscode.SnippetString(`${name}:${createSnippetFromSignature(value.method.signature)}`);
+        item.documentation = new vscode.MarkdownString(value.method.documentation);
+    } else if (value.property) {
+        item = new vscode.CompletionItem(`${name}.${value.property.name}`, vscode.CompletionItemKind.Property);
+        item.documentation = new vscode.MarkdownString(value.property.documentation);
+    } else {
+        item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+    }
+    item.detail = value.type === expectedType ? expectedType : `${value.type} (${expectedType})`;
+    // Variables first, then properties, then methods, all ahead of constructors
+    const group = value.method ? 2 : value.property ? 1 : 0;
+    item.sortText = `!${group}${String(index).padStart(3, '0')}`;
+    return item;
+}
+
+// What a document targets at a position, for marking the APIs it can't use
+interface ApiTarget {
+    version: string | null;
+    product: string | null;     // 'Aspire' inside an IsAspire() check
+    hideUnavailable: boolean;
+}
+
+function apiTargetAt(document: vscode.TextDocument, offset: number): ApiTarget {
+    const analysis = getDocumentAnalysis(document);
+    const product = targetProduct(document);
+    return {
+        version: targetApiVersion(document),
+        product: product && isAspireGuarded(analysis.chunk, analysis.scopes, offset) ? 'Aspire' : product,
+        hideUnavailable: vscode.workspace.getConfiguration('vectric', document.uri).get<string>('unavailableApis', 'dim') === 'hide'
+    };
+}
+
+/**
+ * Which versions and products have an API, e.g. "added in 12.0, Aspire only"
+ */
+function describeAvailability(entry: Versioned & EditionTagged): string {
+    return [describeVersions(entry), describeEditions(entry)].filter(d => d).join(', ');
+}
+
+/**
+ * Note the versions and products that have an API entry, and strike it
+ * through (sorted last) when the target can't use it. Returns false when
+ * the item should be hidden instead.
+ */
+function markAvailability(item: vscode.CompletionItem, entry: Versioned & EditionTagged, target: ApiTarget): boolean {
+    const availability = describeAvailability(entry);
+    if (!availability) {
+        return true;
+    }
+    item.detail = item.detail ? `${item.detail} (${availability})` : availability;
+    if (isAvailableIn(entry, target.version) && isAvailableFor(entry, target.product)) {
+        return true;
+    }
+    item.tags = [vscode.CompletionItemTag.Deprecated];
+    item.sortText = `~~${item.sortText}`;
+    return !target.hideUnavailable;
+}
+
 /**
  * Create member completion items (properties, methods) without class prefix
  */
-function createMemberCompletions(cls: ApiClass, memberType: 'property' | 'method' | 'constant'): vscode.CompletionItem[] {
+function createMemberCompletions(cls: ApiClass, memberType: 'property' | 'method' | 'constant', target: ApiTarget): vscode.CompletionItem[] {
     const items: vscode.CompletionItem[] = [];
     
     if (memberType === 'property' && cls.properties) {
@@ -688,7 +433,9 @@ function createMemberCompletions(cls: ApiClass, memberType: 'property' | 'method
             item.insertText = prop.name;
             item.sortText = `~${prop.name}`; // ~ sorts after normal items
             item.preselect = false; // Never auto-select
-            items.push(item);
+            if (markAvailability(item, prop, target)) {
+                items.push(item);
+            }
         });
     }
     
@@ -709,7 +456,9 @@ function createMemberCompletions(cls: ApiClass, memberType: 'property' | 'method
             }
             item.sortText = `~${method.name}`; // ~ sorts after normal items
             item.preselect = false; // Never auto-select
-            items.push(item);
+            if (markAvailability(item, method, target)) {
+                items.push(item);
+            }
         });
     }
     
@@ -721,13 +470,95 @@ function createMemberCompletions(cls: ApiClass, memberType: 'property' | 'method
             item.insertText = constant.name;
             item.sortText = `~${constant.name}`; // ~ sorts after normal items
             item.preselect = false; // Never auto-select
-            items.push(item);
+            if (markAvailability(item, constant, target)) {
+                items.push(item);
+            }
         });
     }
     
     return items;
 }
 
+/**
+ * Create completion items for Lua library functions by their short names.
+ * Functions the runtime's Lua version lacks are left out, and those the
+ * gadget sandbox blocks are struck through (or hidden).
+ */
+function createLibraryCompletions(functions: ApiFunction[], stdlib: LuaStdlib, target: ApiTarget): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = [];
+    for (const fn of functions.filter(f => isInRuntime(f, stdlib))) {
+        const name = shortName(fn);
+        const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Function);
+        item.detail = fn.detail;
+        item.documentation = new vscode.MarkdownString(fn.documentation);
+        // Optional parameters are left for the user to add
+        const params = fn.signature.parameters
+            .filter(p => !isOptionalParameter(p))
+            .map((p, i) => `\${${i + 1}:${p.label}}`)
+            .join(', ');
+        item.insertText = new vscode.SnippetString(`${name}(${params})$0`);
+        item.sortText = `~${name}`; // ~ sorts after normal items
+        item.preselect = false; // Never auto-select
+        if (fn.unavailableInGadgets) {
+            if (target.hideUnavailable) {
+                continue;
+            }
+            item.detail = `${item.detail} (not allowed in gadgets)`;
+            item.tags = [vscode.CompletionItemTag.Deprecated];
+            item.sortText = `~~${item.sortText}`;
+        }
+        items.push(item);
+    }
+    return items;
+}
+
+/**
+ * Create a completion item for a Lua library table such as string or math
+ */
+function createLibraryTableCompletion(library: LuaLibrary): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(library.table!, vscode.CompletionItemKind.Module);
+    item.detail = library.name;
+    item.documentation = new vscode.MarkdownString(library.description);
+    item.sortText = `~${library.table}`; // ~ sorts after normal items
+    item.preselect = false; // Never auto-select
+    return item;
+}
+
+/**
+ * The Lua library a receiver names (string in string.format), unless a
+ * gadget variable of the same name shadows it
+ */
+function libraryOfReceiver(document: vscode.TextDocument, position: vscode.Position, receiver: string | null, stdlib: LuaStdlib): LuaLibrary | undefined {
+    if (!receiver) {
+        return undefined;
+    }
+    const symbol = resolveName(getDocumentAnalysis(document).scopes, receiver, document.offsetAt(position));
+    if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+        return undefined;
+    }
+    return findLibrary(stdlib, receiver);
+}
+
+/**
+ * Write API data problems to the output channel and point the user at it
+ */
+function reportApiProblems(output: vscode.OutputChannel, problems: ApiProblem[]) {
+    output.clear();
+    if (problems.length === 0) {
+        output.appendLine('Vectric API files are valid');
+        return;
+    }
+    for (const problem of problems) {
+        output.appendLine(formatApiProblem(problem));
+    }
+    console.warn(`Vectric API files have ${problems.length} problem(s)`);
+    vscode.window.showWarningMessage(`Vectric API files have ${problems.length} problem(s).`, 'Show Output').then(choice => {
+        if (choice) {
+            output.show(true);
+        }
+    });
+}
+
 // ==================== Extension Activation ====================
 
 /**
@@ -738,10 +569,49 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('Vectric Lua extension is now active!');
     
     // Load all API data
-    const globalFunctions = loadGlobalFunctions(context.extensionPath);
-    const classes = loadClasses(context.extensionPath);
-    
-    console.log(`Total API loaded: ${globalFunctions.length} functions, ${classes.length} classes`);
+    const bundledFunctions = loadGlobalFunctions(context.extensionPath);
+    const bundledClasses = loadClasses(context.extensionPath);
+    const luaStdlib = loadLuaStdlib(context.extensionPath);
+
+    // Check the API files against their schemas and index.json counts
+    const apiPath = path.join(context.extensionPath, 'vectric-api');
+    const bundledProblems = [
+        ...validateApiFiles(apiPath),
+        ...validateLuaStdlib(path.join(context.extensionPath, 'lua-stdlib'), path.join(apiPath, 'schemas'))
+    ];
+    const apiOutput = vscode.window.createOutputChannel('Vectric API');
+    context.subscriptions.push(apiOutput);
+
+    // The bundled API and the versioned sets next to it
+    const versioned = loadApiSets(apiPath, {
+        version: loadBundledVersion(context.extensionPath), classes: bundledClasses, globalFunctions: bundledFunctions
+    });
+
+    // Every provider holds on to this array, so overlays are merged in place
+    const apiSets: ApiSet[] = [];
+    const applyApiOverlays = () => {
+        const overlay = loadApiOverlays();
+        apiSets.splice(0, apiSets.length, ...versioned.sets.map(set => ({
+            version: set.version,
+            classes: mergeClasses(set.classes, overlay.classes),
+            globalFunctions: mergeFunctions(set.globalFunctions, overlay.functions)
+        })));
+        forgetWorkspaceSymbols();
+        const latest = apiSets[apiSets.length - 1];
+        console.log(`Total API loaded: ${latest.globalFunctions.length} functions, ${latest.classes.length} classes ` +
+            `(versions ${apiSets.map(set => set.version).join(', ')}; ${overlay.files.length} overlay files)`);
+
+        reportApiProblems(apiOutput, [...bundledProblems, ...versioned.problems, ...overlay.problems]);
+        overlay.files.forEach(file => apiOutput.appendLine(`Applied overlay ${file}`));
+    };
+    applyApiOverlays();
+
+    // The API set of the version a document targets
+    const apiFor = (document: vscode.TextDocument): ApiSet => selectApiSet(apiSets, targetApiVersion(document));
+    const apiForUri = (uri: vscode.Uri): ApiSet => {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        return document ? apiFor(document) : selectApiSet(apiSets, configuredApiVersion(uri));
+    };
 
     // ==================== Completion Provider ====================
     
@@ -749,8 +619,16 @@ export function activate(context: vscode.ExtensionContext) {
         'lua',
         {
             provideCompletionItems(document, position) {
+            const { classes, globalFunctions } = apiFor(document);
+            // Control ids inside dialog method string arguments
+            const htmlIds = createHtmlIdCompletions(document, position, classes, globalFunctions);
+            if (htmlIds) {
+                return htmlIds;
+            }
+
             const items: vscode.CompletionItem[] = [];
             const context = getCompletionContext(document, position, classes, globalFunctions);
+            const target = apiTargetAt(document, document.offsetAt(position));
             
             // CONTEXT 0: Lua keyword - don't provide any completions
             if (context.type === 'keyword') {
@@ -758,26 +636,32 @@ export function activate(context: vscode.ExtensionContext) {
             }
             
             // CONTEXT 1: Member access (obj.property or ClassName.constant)
-            if (context.type === 'member-access' && context.className) {
-                const cls = findClassByName(classes, context.className);
+            if (context.type === 'member-access') {
+                // string.format, math.abs, ... - functions of a Lua library table
+                const library = libraryOfReceiver(document, position, context.objectName, luaStdlib);
+                if (library) {
+                    return createLibraryCompletions(library.functions, luaStdlib, target);
+                }
+                // Nothing to offer when the receiver's type is unknown
+                const cls = context.className ? findClassByName(classes, context.className) : undefined;
                 if (cls) {
                     // Get class with inherited members
                     const clsWithInheritance = getClassWithInheritance(cls, classes);
                     // Add properties and constants
-                    items.push(...createMemberCompletions(clsWithInheritance, 'property'));
-                    items.push(...createMemberCompletions(clsWithInheritance, 'constant'));
+                    items.push(...createMemberCompletions(clsWithInheritance, 'property', target));
+                    items.push(...createMemberCompletions(clsWithInheritance, 'constant', target));
                 }
                 return items;
             }
             
             // CONTEXT 2: Method access (obj:method)
-            if (context.type === 'method-access' && context.className) {
-                const cls = findClassByName(classes, context.className);
+            if (context.type === 'method-access') {
+                const cls = context.className ? findClassByName(classes, context.className) : undefined;
                 if (cls) {
                     // Get class with inherited members
                     const clsWithInheritance = getClassWithInheritance(cls, classes);
                     // Add methods only
-                    items.push(...createMemberCompletions(clsWithInheritance, 'method'));
+                    items.push(...createMemberCompletions(clsWithInheritance, 'method', target));
                 }
                 return items;
             }
@@ -823,7 +707,9 @@ export function activate(context: vscode.ExtensionContext) {
                     }
                     item.sortText = `!${expectedClass.name}`; // ! sorts first
                     item.preselect = true; // Auto-select expected type
-                    items.push(item);
+                    if (markAvailability(item, expectedClass, target)) {
+                        items.push(item);
+                    }
                 }
                 
                 // Add global functions that return the expected type
@@ -843,14 +729,25 @@ export function activate(context: vscode.ExtensionContext) {
                             }
                             item.sortText = `!${fn.name}`; // ! sorts first
                             item.preselect = true;
-                            items.push(item);
+                            if (markAvailability(item, fn, target)) {
+                                items.push(item);
+                            }
                         }
                     }
                 });
                 
-                // Also show all variables of the expected type (look backwards for variable declarations)
-                // This would require searching the document, so we'll skip it for now
-                // Just return the filtered items
+                // Variables, obj.Property and obj:Method() values of the expected type already
+                // in scope come first, ahead of building a new value
+                const values = findValuesOfType(
+                    getDocumentAnalysis(document).scopes, document.offsetAt(position), expectedType, classes, globalFunctions
+                );
+                if (values.length > 0) {
+                    items.forEach(item => item.preselect = false);
+                    const valueItems = values.map((value, i) => createTypedValueCompletion(value, expectedType, i));
+                    valueItems[0].preselect = true;
+                    items.unshift(...valueItems);
+                }
+                
                 console.log(`[Completion Handler] Returning ${items.length} items for type ${expectedType}`);
                 return items;
             }
@@ -870,7 +767,9 @@ export function activate(context: vscode.ExtensionContext) {
                         createSnippetFromSignature(fn.signature)
                     );
                 }
-                items.push(item);
+                if (markAvailability(item, fn, target)) {
+                    items.push(item);
+                }
             });
 
             // Add classes (for constructors)
@@ -893,67 +792,108 @@ export function activate(context: vscode.ExtensionContext) {
                         item.insertText = new vscode.SnippetString(`${cls.name}()$0`);
                     }
                 }
-                items.push(item);
+                if (markAvailability(item, cls, target)) {
+                    items.push(item);
+                }
             });
 
+            // Lua's basic functions and library tables
+            for (const library of luaStdlib.libraries.filter(l => isInRuntime(l, luaStdlib))) {
+                items.push(...(library.table ? [createLibraryTableCompletion(library)] : createLibraryCompletions(library.functions, luaStdlib, target)));
+            }
+
             return items;
         }
-    }, '.', ':', '(', ',');  // Trigger on ., :, ( and ,
+    }, '.', ':', '(', ',', '"', "'");  // Trigger on ., :, (, , and quotes (for dialog control ids)
+
+    // ==================== Snippet Provider ====================
+    
+    // Gadget idioms, offered where a statement can start
+    const snippetProvider = vscode.languages.registerCompletionItemProvider('lua', {
+        provideCompletionItems(document, position) {
+            const textBeforeCursor = document.lineAt(position).text.substring(0, position.character);
+            if (!/^\s*\w*$/.test(textBeforeCursor) || isInCommentOrString(getDocumentAnalysis(document), document.offsetAt(position))) {
+                return [];
+            }
+            return GADGET_SNIPPETS.map(snippet => {
+                const item = new vscode.CompletionItem(snippet.prefix, vscode.CompletionItemKind.Snippet);
+                item.detail = snippet.description;
+                item.documentation = new vscode.MarkdownString(`\`\`\`lua\n${previewSnippet(snippet)}\n\`\`\``);
+                item.insertText = new vscode.SnippetString(snippet.body.join('\n'));
+                return item;
+            });
+        }
+    });
 
     // ==================== Signature Help Provider ====================
     
     const signatureProvider = vscode.languages.registerSignatureHelpProvider('lua', {
         provideSignatureHelp(document, position) {
+            const { classes, globalFunctions } = apiFor(document);
+            const call = findCallContext(getDocumentAnalysis(document), document.offsetAt(position));
+            if (!call) {
+                return null;
+            }
+            
+            console.log(`[Signature Help] ${call.receiver !== null ? `${call.receiver}${call.isMethod ? ':' : '.'}` : ''}${call.functionName}, argument ${call.argumentIndex} of ${call.argumentCount}`);
+            
             const sigHelp = new vscode.SignatureHelp();
-
-            // Add global function signatures
-            globalFunctions.forEach((fn: ApiFunction) => {
-                if (fn.signature) {
-                    const sig = new vscode.SignatureInformation(
-                        fn.signature.label,
-                        fn.signature.documentation
-                    );
-                    sig.parameters = fn.signature.parameters.map(
-                        (p: ApiParameter) => new vscode.ParameterInformation(p.label, p.documentation)
-                    );
-                    sigHelp.signatures.push(sig);
+            
+            // string.format( and the basic functions - Lua's own libraries
+            const library = call.isMethod ? undefined : libraryOfReceiver(document, position, call.receiver, luaStdlib);
+            const libraryFn = library
+                ? findLibraryFunction(luaStdlib, library.table, call.functionName)
+                : call.receiver === null && !isLocalName(document, position, call.functionName) && !globalFunctions.some(f => f.name === call.functionName)
+                    ? findLibraryFunction(luaStdlib, null, call.functionName)
+                    : undefined;
+            if (libraryFn) {
+                sigHelp.signatures.push(createSignatureInformation(
+                    libraryFn.signature.label, libraryFn.signature.documentation, libraryFn.signature.parameters
+                ));
+                // Arguments past a trailing ... all belong to it
+                const parameters = libraryFn.signature.parameters;
+                const variadic = isVariadicParameter(parameters[parameters.length - 1]);
+                sigHelp.activeParameter = variadic ? Math.min(call.argumentIndex, parameters.length - 1) : call.argumentIndex;
+                return sigHelp;
+            }
+            
+            if (call.receiver !== null) {
+                // obj:Method( - resolve the method through the receiver's inferred type
+                const method = findCalledMethod(document, call, classes, globalFunctions);
+                if (!method || !method.signature) {
+                    return null;
                 }
-            });
-
-            // Add class constructor signatures
-            classes.forEach((cls: ApiClass) => {
-                if (cls.constructors) {
-                    cls.constructors.forEach((constructor: ApiConstructor) => {
-                        const sig = new vscode.SignatureInformation(
-                            constructor.label,
-                            constructor.documentation
-                        );
-                        sig.parameters = constructor.parameters.map(
-                            (p: ApiParameter) => new vscode.ParameterInformation(p.label, p.documentation)
-                        );
-                        sigHelp.signatures.push(sig);
-                    });
+                sigHelp.signatures.push(createSignatureInformation(
+                    method.signature.label, method.signature.documentation, method.signature.parameters
+                ));
+            } else {
+                // Locals shadow API functions and classes of the same name
+                if (isLocalName(document, position, call.functionName)) {
+                    return null;
                 }
-
-                // Add method signatures
-                if (cls.methods) {
-                    cls.methods.forEach((method: ApiMethod) => {
-                        if (method.signature) {
-                            const sig = new vscode.SignatureInformation(
-                                method.signature.label,
-                                method.signature.documentation
-                            );
-                            sig.parameters = method.signature.parameters.map(
-                                (p: ApiParameter) => new vscode.ParameterInformation(p.label, p.documentation)
-                            );
-                            sigHelp.signatures.push(sig);
-                        }
+                
+                const fn = globalFunctions.find(f => f.name === call.functionName);
+                const cls = findClassByName(classes, call.functionName);
+                
+                if (fn && fn.signature) {
+                    sigHelp.signatures.push(createSignatureInformation(
+                        fn.signature.label, fn.signature.documentation, fn.signature.parameters
+                    ));
+                } else if (cls && cls.constructors && cls.constructors.length > 0) {
+                    // One signature per constructor overload
+                    cls.constructors.forEach((constructor: ApiConstructor) => {
+                        sigHelp.signatures.push(createSignatureInformation(
+                            constructor.label, constructor.documentation, constructor.parameters
+                        ));
                     });
+                } else {
+                    return null;
                 }
-            });
-
-            sigHelp.activeSignature = 0;
-            sigHelp.activeParameter = 0;
+            }
+            
+            const parameterLists = sigHelp.signatures.map(sig => sig.parameters);
+            sigHelp.activeSignature = pickOverload(parameterLists, call.argumentIndex, call.argumentCount);
+            sigHelp.activeParameter = call.argumentIndex;
             return sigHelp;
         }
     }, '(', ',');
@@ -962,63 +902,328 @@ export function activate(context: vscode.ExtensionContext) {
     
     const hoverProvider = vscode.languages.registerHoverProvider('lua', {
         provideHover(document, position) {
+            const { classes, globalFunctions } = apiFor(document);
             const range = document.getWordRangeAtPosition(position);
+            if (!range) {
+                return null;
+            }
             const word = document.getText(range);
+            const analysis = getDocumentAnalysis(document);
+            const offset = document.offsetAt(position);
+            const target = apiTargetAt(document, offset);
+
+            // obj.Name / obj:Name() - look the member up on the receiver's class
+            const member = findMemberAt(analysis.chunk, offset) || findMemberAccessAt(analysis, offset);
+            if (member) {
+                // string.format - a function of a Lua library table
+                const library = member.indexer === '.' && member.base.type === 'Identifier'
+                    ? libraryOfReceiver(document, document.positionAt(member.base.start), member.base.name, luaStdlib)
+                    : undefined;
+                if (library) {
+                    const fn = findLibraryFunction(luaStdlib, library.table, member.identifier.name);
+                    return fn ? createFunctionHover(fn, libraryAvailabilityMarkdown(fn, luaStdlib)) : null;
+                }
+                return createMemberAccessHover(analysis, member, classes, globalFunctions, target);
+            }
+
+            // Locals, parameters and user functions shadow API names
+            const symbol = findSymbolAt(analysis.scopes, offset);
+            if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+                const func = userFunctionOf(symbol);
+                return func
+                    ? createUserFunctionHover(symbol.name, func, analysis)
+                    : createVariableHover(analysis, symbol, offset, classes, globalFunctions);
+            }
 
             // Check for global functions
             const globalFn = globalFunctions.find((f: ApiFunction) => f.name === word);
             if (globalFn) {
-                return createFunctionHover(globalFn);
+                return createFunctionHover(globalFn, availabilityMarkdown(globalFn, target));
             }
 
             // Check for classes
             const cls = classes.find((c: ApiClass) => c.name === word);
             if (cls) {
-                return createClassHover(cls);
+                return createClassHover(cls, target);
             }
 
-            // Check for class methods and properties
-            for (const cls of classes) {
-                // Check methods
-                if (cls.methods) {
-                    const method = cls.methods.find((m: ApiMethod) => m.name === word);
-                    if (method) {
-                        return createMethodHover(cls.name, method);
-                    }
-                }
-
-                // Check properties
-                if (cls.properties) {
-                    const prop = cls.properties.find((p: ApiProperty) => p.name === word);
-                    if (prop) {
-                        return createPropertyHover(cls.name, prop);
-                    }
-                }
-
-                // Check constants
-                if (cls.constants) {
-                    const constant = cls.constants.find((c: ApiConstant) => c.name === word);
-                    if (constant) {
-                        return createConstantHover(cls.name, constant);
-                    }
-                }
+            // Lua's basic functions and library tables
+            const basicFn = findLibraryFunction(luaStdlib, null, word);
+            if (basicFn) {
+                return createFunctionHover(basicFn, libraryAvailabilityMarkdown(basicFn, luaStdlib));
+            }
+            const library = findLibrary(luaStdlib, word);
+            if (library) {
+                return createLibraryHover(library, luaStdlib);
             }
 
             return null;
         }
     });
 
+    // ==================== Definition Provider ====================
+    
+    const definitionProvider = vscode.languages.registerDefinitionProvider('lua', {
+        provideDefinition(document, position) {
+            return findDefinitions(document, position);
+        }
+    });
+    const workspaceWatcher = watchWorkspaceFiles();
+
+    // ==================== Symbol Providers ====================
+    
+    const documentSymbolProvider = vscode.languages.registerDocumentSymbolProvider('lua', {
+        provideDocumentSymbols(document) {
+            const { classes, globalFunctions } = apiFor(document);
+            return collectDocumentSymbols(fileFromDocument(document), classes, globalFunctions);
+        }
+    });
+    
+    const workspaceSymbolProvider = vscode.languages.registerWorkspaceSymbolProvider({
+        provideWorkspaceSymbols(query) {
+            const { classes, globalFunctions } = selectApiSet(apiSets, null);
+            return collectWorkspaceSymbols(query, classes, globalFunctions);
+        }
+    });
+
+    // ==================== References and Rename ====================
+    
+    const referenceProvider = vscode.languages.registerReferenceProvider('lua', {
+        provideReferences(document, position, context) {
+            return findReferences(document, position, context.includeDeclaration);
+        }
+    });
+    const renameProvider = vscode.languages.registerRenameProvider('lua', {
+        prepareRename(document, position) {
+            const { classes, globalFunctions } = apiFor(document);
+            return prepareRename(document, position, classes, globalFunctions);
+        },
+        provideRenameEdits(document, position, newName) {
+            const { classes, globalFunctions } = apiFor(document);
+            return renameSymbol(document, position, newName, classes, globalFunctions);
+        }
+    });
+
+    // ==================== Call Hierarchy ====================
+    
+    const callHierarchyProvider = vscode.languages.registerCallHierarchyProvider('lua', {
+        prepareCallHierarchy(document, position) {
+            const { classes, globalFunctions } = apiFor(document);
+            return prepareCallHierarchy(document, position, classes, globalFunctions);
+        },
+        provideCallHierarchyIncomingCalls(item) {
+            const { classes, globalFunctions } = apiForUri(item.uri);
+            return findIncomingCalls(item, classes, globalFunctions);
+        },
+        provideCallHierarchyOutgoingCalls(item) {
+            const { classes, globalFunctions } = apiForUri(item.uri);
+            return findOutgoingCalls(item, classes, globalFunctions);
+        }
+    });
+
+    // ==================== Inlay Hints ====================
+    
+    // Fired when a vectric.inlayHints.* setting changes
+    const inlayHintsChanged = new vscode.EventEmitter<void>();
+    const inlayHintsProvider = vscode.languages.registerInlayHintsProvider('lua', {
+        onDidChangeInlayHints: inlayHintsChanged.event,
+        provideInlayHints(document, range) {
+            const { classes, globalFunctions } = apiFor(document);
+            return provideInlayHints(document, range, classes, globalFunctions);
+        }
+    });
+    const inlayHintsListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (affectsInlayHints(e)) {
+            inlayHintsChanged.fire();
+        }
+    });
+
+    // ==================== Semantic Tokens ====================
+    
+    // Fired when API overlays change what the names refer to
+    const semanticTokensChanged = new vscode.EventEmitter<void>();
+    const semanticTokensProvider = vscode.languages.registerDocumentSemanticTokensProvider('lua', {
+        onDidChangeSemanticTokens: semanticTokensChanged.event,
+        provideDocumentSemanticTokens(document) {
+            const { classes, globalFunctions } = apiFor(document);
+            return provideSemanticTokens(document, classes, globalFunctions);
+        }
+    }, SEMANTIC_LEGEND);
+
+    // ==================== Diagnostics ====================
+    
+    const diagnosticCollection = vscode.languages.createDiagnosticCollection('vectric');
+    const pendingDiagnostics = new Map<string, NodeJS.Timeout>();
+    
+    const refreshDiagnostics = async (document: vscode.TextDocument) => {
+        if (document.languageId !== 'lua') {
+            return;
+        }
+        const workspaceGlobals = globalsDefinedIn(await getWorkspaceFiles(), document.uri);
+        if (document.isClosed) {
+            return;
+        }
+        const { classes, globalFunctions } = apiFor(document);
+        diagnosticCollection.set(document.uri, collectDiagnostics(document, classes, globalFunctions, luaStdlib, workspaceGlobals));
+    };
+    
+    // Re-check shortly after typing stops rather than on every keystroke
+    const scheduleDiagnostics = (document: vscode.TextDocument) => {
+        const key = document.uri.toString();
+        clearTimeout(pendingDiagnostics.get(key));
+        pendingDiagnostics.set(key, setTimeout(() => {
+            pendingDiagnostics.delete(key);
+            refreshDiagnostics(document);
+        }, 300));
+    };
+    
+    vscode.workspace.textDocuments.forEach(refreshDiagnostics);
+    
+    const openListener = vscode.workspace.onDidOpenTextDocument(refreshDiagnostics);
+    const changeListener = vscode.workspace.onDidChangeTextDocument(e => {
+        recordDocumentChange(e);
+        // Editing a dialog page changes which control ids the scripts may use
+        if (isGadgetPage(e.document)) {
+            vscode.workspace.textDocuments.forEach(scheduleDiagnostics);
+        } else {
+            scheduleDiagnostics(e.document);
+        }
+    });
+    const closeListener = vscode.workspace.onDidCloseTextDocument(document => {
+        clearTimeout(pendingDiagnostics.get(document.uri.toString()));
+        diagnosticCollection.delete(document.uri);
+        // Drop cached parse results as well
+        forgetDocument(document);
+    });
+
+    const targetListener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('vectric.apiVersion') || e.affectsConfiguration('vectric.targetProduct')) {
+            vscode.workspace.textDocuments.forEach(refreshDiagnostics);
+        }
+    });
+
+    // Re-check open documents against the updated API when an overlay is saved
+    const overlayWatcher = watchApiOverlays(() => {
+        applyApiOverlays();
+        vscode.workspace.textDocuments.forEach(refreshDiagnostics);
+        semanticTokensChanged.fire();
+    });
+
+    // Pages saved, created or deleted outside the editor
+    const pageWatcher = watchGadgetPages(() => vscode.workspace.textDocuments.forEach(scheduleDiagnostics));
+
+    // ==================== Code Actions ====================
+    
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider('lua', {
+        provideCodeActions(document, range, context) {
+            const { classes, globalFunctions } = apiFor(document);
+            return provideCodeActions(document, range, context, classes, globalFunctions);
+        }
+    }, { providedCodeActionKinds: PROVIDED_KINDS });
+
+    // ==================== Commands ====================
+    
+    const newGadgetCommand = vscode.commands.registerCommand(NEW_GADGET_COMMAND, newGadget);
+
     // Register all providers
-    context.subscriptions.push(completionProvider, signatureProvider, hoverProvider);
+    context.subscriptions.push(
+        completionProvider, snippetProvider, newGadgetCommand, codeActionProvider, signatureProvider, hoverProvider, definitionProvider, referenceProvider, renameProvider, callHierarchyProvider, workspaceWatcher,
+        documentSymbolProvider, workspaceSymbolProvider, semanticTokensProvider, semanticTokensChanged, inlayHintsProvider, inlayHintsChanged, inlayHintsListener,
+        diagnosticCollection, openListener, changeListener, closeListener, overlayWatcher, targetListener, pageWatcher
+    );
+}
+
+// ==================== Signature Help Helper Functions ====================
+
+/**
+ * Create signature information with parameter ranges inside the label, so the
+ * highlighted parameter is never a stray match elsewhere in the label
+ */
+function createSignatureInformation(label: string, documentation: string, parameters: ApiParameter[]): vscode.SignatureInformation {
+    const sig = new vscode.SignatureInformation(label, documentation);
+    let searchFrom = label.indexOf('(') + 1;
+    
+    sig.parameters = parameters.map((p: ApiParameter) => {
+        const name = p.label.replace(/[^\w]/g, '');
+        const match = (name ? new RegExp(`\\b${name}\\b`) : /\.\.\./).exec(label.substring(searchFrom));
+        if (!match) {
+            return new vscode.ParameterInformation(p.label, p.documentation);
+        }
+        const start = searchFrom + match.index;
+        // Extend over the type annotation, up to the next comma or closing paren
+        let end = start;
+        while (end < label.length && label[end] !== ',' && label[end] !== ')') {
+            end++;
+        }
+        searchFrom = end;
+        return new vscode.ParameterInformation([start, end], p.documentation);
+    });
+    
+    return sig;
+}
+
+/**
+ * Pick the overload that best fits a call: one accepting the full argument
+ * count that still has a parameter at the cursor, then the shortest one with
+ * a parameter at the cursor, otherwise the first
+ */
+function pickOverload(parameterLists: vscode.ParameterInformation[][], argumentIndex: number, argumentCount: number): number {
+    const exact = parameterLists.findIndex(params => params.length === argumentCount && params.length > argumentIndex);
+    if (exact >= 0) {
+        return exact;
+    }
+    
+    let best = -1;
+    parameterLists.forEach((params, i) => {
+        if (params.length > argumentIndex && (best < 0 || params.length < parameterLists[best].length)) {
+            best = i;
+        }
+    });
+    return best >= 0 ? best : 0;
 }
 
 // ==================== Hover Helper Functions ====================
 
 /**
- * Create hover information for a function
+ * Hover text saying which versions and products have an API, with a warning
+ * when the document's target can't use it
+ */
+function availabilityMarkdown(entry: Versioned & EditionTagged, target?: ApiTarget): string {
+    const availability = describeAvailability(entry);
+    if (!availability) {
+        return '';
+    }
+    let markdown = `*${availability.charAt(0).toUpperCase()}${availability.substring(1)}*\n\n`;
+    if (target && !isAvailableIn(entry, target.version)) {
+        markdown += `**Not available in Vectric API ${target.version}**\n\n`;
+    }
+    if (target && !isAvailableFor(entry, target.product)) {
+        markdown += `**Not available in ${target.product}**\n\n`;
+    }
+    return markdown;
+}
+
+/**
+ * Hover text saying which Lua versions have a library function, with a
+ * warning when the runtime's version lacks it or gadgets can't call it
+ */
+function libraryAvailabilityMarkdown(fn: ApiFunction, stdlib: LuaStdlib): string {
+    const versions = describeLuaVersions(fn);
+    let markdown = versions ? `*${versions.charAt(0).toUpperCase()}${versions.substring(1)}*\n\n` : '';
+    if (!isInRuntime(fn, stdlib)) {
+        markdown += `**Not available in Lua ${stdlib.runtime}**\n\n`;
+    }
+    if (fn.unavailableInGadgets) {
+        markdown += `**Not allowed in gadgets**\n\n`;
+    }
+    return markdown;
+}
+
+/**
+ * Create hover information for a function, after any availability notes
  */
-function createFunctionHover(fn: ApiFunction): vscode.Hover {
-    let markdown = `### ${fn.name}\n\n${fn.documentation}\n\n`;
+function createFunctionHover(fn: ApiFunction, notes = ''): vscode.Hover {
+    let markdown = `### ${fn.name}\n\n${notes}${fn.documentation}\n\n`;
     
     if (fn.signature) {
         markdown += `**Signature:**\n\`\`\`lua\n${fn.signature.label}\n\`\`\`\n\n`;
@@ -1039,11 +1244,20 @@ function createFunctionHover(fn: ApiFunction): vscode.Hover {
     return new vscode.Hover(new vscode.MarkdownString(markdown));
 }
 
+/**
+ * Create hover information for a Lua library table
+ */
+function createLibraryHover(library: LuaLibrary, stdlib: LuaStdlib): vscode.Hover {
+    const functions = library.functions.filter(f => isInRuntime(f, stdlib));
+    const markdown = `### ${library.table}\n\n*${library.name}*\n\n${library.description}\n\n**Functions:** ${functions.length}`;
+    return new vscode.Hover(new vscode.MarkdownString(markdown));
+}
+
 /**
  * Create hover information for a class
  */
-function createClassHover(cls: ApiClass): vscode.Hover {
-    let markdown = `### ${cls.name}\n\n${cls.documentation}\n\n`;
+function createClassHover(cls: ApiClass, target?: ApiTarget): vscode.Hover {
+    let markdown = `### ${cls.name}\n\n${availabilityMarkdown(cls, target)}${cls.documentation}\n\n`;
     
     if (cls.constructors && cls.constructors.length > 0) {
         markdown += `**Constructors:**\n`;
@@ -1070,8 +1284,8 @@ function createClassHover(cls: ApiClass): vscode.Hover {
 /**
  * Create hover information for a method
  */
-function createMethodHover(className: string, method: ApiMethod): vscode.Hover {
-    let markdown = `### ${className}:${method.name}\n\n${method.documentation}\n\n`;
+function createMethodHover(className: string, method: ApiMethod, target?: ApiTarget): vscode.Hover {
+    let markdown = `### ${className}:${method.name}\n\n${availabilityMarkdown(method, target)}${method.documentation}\n\n`;
     
     if (method.signature) {
         markdown += `**Signature:**\n\`\`\`lua\n${method.signature.label}\n\`\`\`\n\n`;
@@ -1123,17 +1337,120 @@ function createMethodHover(className: string, method: ApiMethod): vscode.Hover {
 /**
  * Create hover information for a property
  */
-function createPropertyHover(className: string, prop: ApiProperty): vscode.Hover {
+function createPropertyHover(className: string, prop: ApiProperty, target?: ApiTarget): vscode.Hover {
     const readWrite = prop.readOnly ? 'Read-only' : 'Read/write';
-    const markdown = `### ${className}.${prop.name}\n\n${prop.documentation}\n\n**Type:** ${prop.detail}\n\n**Access:** ${readWrite}`;
+    const markdown = `### ${className}.${prop.name}\n\n${availabilityMarkdown(prop, target)}${prop.documentation}\n\n**Type:** ${prop.detail}\n\n**Access:** ${readWrite}`;
     return new vscode.Hover(new vscode.MarkdownString(markdown));
 }
 
 /**
  * Create hover information for a constant
  */
-function createConstantHover(className: string, constant: ApiConstant): vscode.Hover {
-    const markdown = `### ${className}.${constant.name}\n\n${constant.value}`;
+function createConstantHover(className: string, constant: ApiConstant, target?: ApiTarget): vscode.Hover {
+    const markdown = `### ${className}.${constant.name}\n\n${availabilityMarkdown(constant, target)}${constant.value}`;
+    return new vscode.Hover(new vscode.MarkdownString(markdown));
+}
+
+/**
+ * Create hover information for a member access, using the class inferred
+ * for the receiver (or the class itself for static access such as
+ * MaterialBlock.BLC)
+ */
+function createMemberAccessHover(analysis: LuaAnalysis, member: MemberAccess, classes: ApiClass[], globalFunctions: ApiFunction[], target: ApiTarget): vscode.Hover | null {
+    const name = member.identifier.name;
+    const type = inferReceiverType(analysis.scopes, member.base, classes, globalFunctions);
+    let cls = type ? findClassByName(classes, type) : undefined;
+
+    if (!cls) {
+        // Fields of the gadget's own tables are not API members
+        const match = findFieldAt(analysis.scopes, member.identifier.start);
+        if (match && match.field.assignments.length > 0) {
+            const func = userFunctionOf(match.field);
+            const qualifiedName = [match.owner.name, ...match.path].join('.');
+            return func ? createUserFunctionHover(qualifiedName, func, analysis) : null;
+        }
+        // Receiver unknown: only answer when a single class has the member
+        const owners = classes.filter(c => [...(c.methods || []), ...(c.properties || []), ...(c.constants || [])].some(m => m.name === name));
+        if (owners.length !== 1) {
+            return null;
+        }
+        cls = owners[0];
+    }
+
+    // Inherited members are titled with the class that declares them
+    const full = getClassWithInheritance(cls, classes);
+    const owner = findDeclaringClass(cls, classes, name).name;
+
+    const method = (full.methods || []).find((m: ApiMethod) => m.name === name);
+    const prop = (full.properties || []).find((p: ApiProperty) => p.name === name);
+    const constant = (full.constants || []).find((c: ApiConstant) => c.name === name);
+    if (method && (member.indexer === ':' || (!prop && !constant))) {
+        return createMethodHover(owner, method, target);
+    }
+    if (prop) {
+        return createPropertyHover(owner, prop, target);
+    }
+    return constant ? createConstantHover(owner, constant, target) : null;
+}
+
+/**
+ * The function most recently assigned to a gadget symbol or table field, if any
+ */
+function userFunctionOf(owner: { assignments: SymbolAssignment[] }): FunctionExpression | null {
+    for (let i = owner.assignments.length - 1; i >= 0; i--) {
+        const value = owner.assignments[i].value;
+        if (value && value.type === 'FunctionExpression') {
+            return value;
+        }
+    }
+    return null;
+}
+
+/**
+ * Create hover information for a gadget function from its LuaDoc comment,
+ * rendered the same way as API functions
+ */
+function createUserFunctionHover(name: string, func: FunctionExpression, analysis: LuaAnalysis): vscode.Hover {
+    const doc = analysis.scopes.annotations.functions.get(func);
+    const names = func.parameters.filter(p => p.start < p.end).map(p => p.name);
+    if (func.isVararg) {
+        names.push('...');
+    }
+    const tags = names.map(n => doc ? doc.params.find(t => t.name === n) : undefined);
+
+    const parameters: ApiParameter[] = names.map((n, i) => {
+        const tag = tags[i];
+        return { label: n, documentation: tag ? `${n}: ${tag.type}${tag.description ? ` - ${tag.description}` : ''}` : '' };
+    });
+    const label = `${name}(${names.map((n, i) => tags[i] ? `${n}: ${tags[i]!.type}` : n).join(', ')})`;
+    const description = doc ? doc.description : '';
+    const fn: ApiFunction = {
+        name,
+        kind: 'Function',
+        detail: label,
+        documentation: description,
+        signature: {
+            label,
+            documentation: description,
+            parameters,
+            returns: doc && doc.returns.length > 0 ? doc.returns.map(r => r.type).join(', ') : undefined
+        }
+    };
+    return createFunctionHover(fn);
+}
+
+/**
+ * Create hover information for a local, parameter or user global showing its inferred type
+ */
+function createVariableHover(analysis: LuaAnalysis, symbol: LuaSymbol, offset: number, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.Hover | null {
+    const type = inferSymbolType(analysis.scopes, symbol, offset, classes, globalFunctions);
+    if (!type) {
+        return null;
+    }
+    const kinds: { [kind: string]: string } = {
+        local: 'Local variable', parameter: 'Parameter', forVariable: 'Loop variable', global: 'Global variable'
+    };
+    const markdown = `### ${symbol.name}\n\n${kinds[symbol.kind]}\n\n**Type:** ${type}`;
     return new vscode.Hover(new vscode.MarkdownString(markdown));
 }
 
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LuaAnalysis } from './luaDocument';
+
+// ==================== Gadget Dialog HTML ====================
+//
+// A gadget's HTML_Dialog shows an HTML page that usually sits next to the
+// script, and methods such as GetDoubleField name the page's controls by
+// id. The page is the .htm/.html file named in one of the script's strings
+// (typically "file:" .. path .. "\\MyGadget.htm"), or else the one that
+// shares the script's name. Open pages are read from the editor so unsaved
+// changes are seen; others are read from disk and cached until they change.
+
+export interface HtmlControl {
+    id: string;             // id attribute, or name for a group of radio inputs
+    tag: string;            // Lower-case tag name
+    type: string | null;    // type attribute, for inputs
+    offset: number;         // Offset of the tag in the page
+}
+
+export interface GadgetPage {
+    uri: vscode.Uri;
+    controls: HtmlControl[];
+}
+
+const HTML_FILES = '**/*.{htm,html}';
+const PAGE_NAME = /([^\\/:]+\.html?)$/i;
+const TAG = /<([a-zA-Z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const pageCache = new Map<string, HtmlControl[]>();
+
+/**
+ * Find the elements of an HTML page that have an id, plus one entry per
+ * radio group (radio inputs share a name rather than an id)
+ */
+export function parseHtmlControls(html: string): HtmlControl[] {
+    // Blank out comments, keeping offsets
+    const text = html.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+    const controls: HtmlControl[] = [];
+    const seen = new Set<string>();
+
+    for (const tag of text.matchAll(TAG)) {
+        const attributes = new Map<string, string>();
+        for (const attribute of tag[2].matchAll(ATTRIBUTE)) {
+            attributes.set(attribute[1].toLowerCase(), attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+        }
+        const type = attributes.get('type')?.toLowerCase() ?? null;
+        const name = attributes.get('name');
+        const ids = [attributes.get('id'), type === 'radio' ? name : undefined];
+        for (const id of ids) {
+            if (id && !seen.has(id)) {
+                seen.add(id);
+                controls.push({ id, tag: tag[1].toLowerCase(), type, offset: tag.index! });
+            }
+        }
+    }
+    return controls;
+}
+
+/**
+ * The HTML pages a script's dialogs may show: those named in its strings
+ * that exist next to it, else the page with the script's own name
+ */
+function pageFiles(scriptFile: string, analysis: LuaAnalysis): string[] {
+    const folder = path.dirname(scriptFile);
+    const named = new Set<string>();
+    for (const token of analysis.tokens) {
+        const match = token.type === 'string' ? PAGE_NAME.exec(token.value) : null;
+        if (match) {
+            named.add(path.join(folder, match[1]));
+        }
+    }
+    const existing = [...named].filter(file => fs.existsSync(file));
+    if (existing.length > 0) {
+        return existing;
+    }
+    const base = path.join(folder, path.basename(scriptFile, path.extname(scriptFile)));
+    return [`${base}.htm`, `${base}.html`].filter(file => fs.existsSync(file));
+}
+
+function readControls(file: string): HtmlControl[] {
+    const uri = vscode.Uri.file(file);
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (open) {
+        return parseHtmlControls(open.getText());
+    }
+    let controls = pageCache.get(file);
+    if (!controls) {
+        try {
+            controls = parseHtmlControls(fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            console.error(`Error reading ${file}:`, error);
+            controls = [];
+        }
+        pageCache.set(file, controls);
+    }
+    return controls;
+}
+
+/**
+ * The dialog pages of a gadget script, with their controls. Empty when the
+ * script isn't saved to disk or has no page next to it.
+ */
+export function findGadgetPages(document: vscode.TextDocument, analysis: LuaAnalysis): GadgetPage[] {
+    if (document.uri.scheme !== 'file') {
+        return [];
+    }
+    return pageFiles(document.uri.fsPath, analysis).map(file => ({ uri: vscode.Uri.file(file), controls: readControls(file) }));
+}
+
+/**
+ * Check whether a document is a dialog page, so editing it re-checks scripts
+ */
+export function isGadgetPage(document: vscode.TextDocument): boolean {
+    return /\.html?$/i.test(document.uri.fsPath);
+}
+
+/**
+ * Watch the workspace's HTML pages, dropping cached controls and calling
+ * onChange when one is created, saved or deleted
+ */
+export function watchGadgetPages(onChange: () => void): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(HTML_FILES);
+    const changed = (uri: vscode.Uri) => {
+        pageCache.delete(uri.fsPath);
+        onChange();
+    };
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(changed),
+        watcher.onDidChange(changed),
+        watcher.onDidDelete(changed)
+    );
+}
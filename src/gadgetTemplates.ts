@@ -0,0 +1,247 @@
+// ==================== Gadget Templates ====================
+//
+// Text for the files the "Vectric: New Gadget" command creates, and the
+// snippets offered at the start of a statement. A gadget is a folder
+// holding <Name>.lua, whose main(script_path) Vectric calls, and optionally
+// the <Name>.htm page its HTML_Dialog shows.
+
+// How a new gadget's main() checks the job before doing any work
+export type GadgetPrologue = 'selection' | 'job' | 'newJob';
+
+export interface GadgetOptions {
+    name: string;               // Gadget name, also used for the folder and file names
+    prologue: GadgetPrologue;
+    dialog: boolean;            // Create <Name>.htm and show it from main()
+}
+
+export interface GadgetSnippet {
+    prefix: string;
+    description: string;
+    body: string[];             // Lines of a VS Code snippet, indented with tabs
+}
+
+// Characters Windows doesn't allow in file names, plus the string quote
+const INVALID_NAME = /[\\/:*?"<>|]/;
+
+/**
+ * Check a gadget name, returning why it can't be used or null when it can
+ */
+export function validateGadgetName(name: string): string | null {
+    if (!name.trim()) {
+        return 'Enter a name for the gadget';
+    }
+    if (INVALID_NAME.test(name)) {
+        return 'A gadget name can\'t contain \\ / : * ? " < > or |';
+    }
+    return name.trim() === name ? null : 'A gadget name can\'t start or end with a space';
+}
+
+function prologueLines(options: GadgetOptions): string[] {
+    switch (options.prologue) {
+        case 'newJob':
+            return [
+                '    local job = VectricJob()',
+                '    if not job.Exists then',
+                '        -- Create a 24 x 18 x 0.75 inch job, origin at the bottom left of the material surface',
+                '        local bounds = Box2D(Point2D(0, 0), Point2D(24, 18))',
+                `        if not CreateNewJob("${options.name}", bounds, 0.75, false, true) then`,
+                '            MessageBox("Unable to create a job")',
+                '            return false',
+                '        end',
+                '        job = VectricJob()',
+                '    end'
+            ];
+        case 'job':
+        case 'selection':
+            return [
+                '    local job = VectricJob()',
+                '    if not job.Exists then',
+                '        MessageBox("No job loaded")',
+                '        return false',
+                '    end',
+                ...(options.prologue === 'selection' ? [
+                    '',
+                    '    local selection = job.Selection',
+                    '    if selection.IsEmpty then',
+                    '        MessageBox("Please select one or more vectors")',
+                    '        return false',
+                    '    end'
+                ] : [])
+            ];
+    }
+}
+
+/**
+ * The gadget's <Name>.lua entry script
+ */
+export function createGadgetScript(options: GadgetOptions): string {
+    const lines = [
+        '-- VECTRIC LUA SCRIPT',
+        '',
+        `-- ${options.name}`,
+        '',
+        '-- Called by Vectric when the gadget is run; script_path is the gadget\'s folder',
+        'function main(script_path)',
+        ...prologueLines(options),
+        ''
+    ];
+    if (options.dialog) {
+        lines.push(
+            `    local dialog = HTML_Dialog(false, "file:" .. script_path .. "\\\\${options.name}.htm", 600, 400, "${options.name}")`,
+            '    dialog:AddDoubleField("Offset", 0.25)',
+            '    if not dialog:ShowDialog() then',
+            '        return false',
+            '    end',
+            '    local offset = dialog:GetDoubleField("Offset")',
+            ''
+        );
+    }
+    if (options.prologue === 'selection') {
+        lines.push(
+            '    local pos = selection:GetHeadPosition()',
+            '    while pos ~= nil do',
+            '        local object',
+            '        object, pos = selection:GetNext(pos)',
+            '        -- Work with each selected object here',
+            '    end',
+            ''
+        );
+    }
+    lines.push(
+        '    job:Refresh2DView()',
+        '    return true',
+        'end',
+        ''
+    );
+    return lines.join('\n');
+}
+
+/**
+ * The gadget's <Name>.htm dialog page, with the Offset field the script reads
+ * and the OK and Cancel buttons that close the dialog
+ */
+export function createGadgetPage(options: GadgetOptions): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        `<title>${options.name}</title>`,
+        '<meta http-equiv="Content-Type" content="text/html; charset=utf-8">',
+        '<style>',
+        '    body { font-family: Arial, sans-serif; font-size: 12px; background-color: #efefef; }',
+        '    .FormButton { width: 80px; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        '<table>',
+        '    <tr>',
+        '        <td>Offset</td>',
+        '        <td><input id="Offset" type="text" size="10"></td>',
+        '    </tr>',
+        '</table>',
+        '<p>',
+        '    <input id="ButtonOK" class="FormButton" type="button" value="OK">',
+        '    <input id="ButtonCancel" class="FormButton" type="button" value="Cancel">',
+        '</p>',
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+// ==================== Snippets ====================
+
+export const GADGET_SNIPPETS: GadgetSnippet[] = [
+    {
+        prefix: 'main',
+        description: 'Gadget entry point',
+        body: [
+            'function main(script_path)',
+            '\t$0',
+            '\treturn true',
+            'end'
+        ]
+    },
+    {
+        prefix: 'OnLuaButton',
+        description: 'Handler for a dialog button with class "LuaButton"',
+        body: [
+            'function OnLuaButton_${1:ButtonId}(dialog)',
+            '\t$0',
+            '\treturn true',
+            'end'
+        ]
+    },
+    {
+        prefix: 'jobcheck',
+        description: 'Get the job and stop when none is open',
+        body: [
+            'local ${1:job} = VectricJob()',
+            'if not ${1:job}.Exists then',
+            '\tMessageBox("${2:No job loaded}")',
+            '\treturn false',
+            'end',
+            '$0'
+        ]
+    },
+    {
+        prefix: 'foreachselected',
+        description: 'Loop over the selected objects',
+        body: [
+            'local ${1:selection} = ${2:job}.Selection',
+            'local ${3:pos} = ${1:selection}:GetHeadPosition()',
+            'while ${3:pos} ~= nil do',
+            '\tlocal ${4:object}',
+            '\t${4:object}, ${3:pos} = ${1:selection}:GetNext(${3:pos})',
+            '\t$0',
+            'end'
+        ]
+    },
+    {
+        prefix: 'foreachlayer',
+        description: 'Loop over the layers of the job',
+        body: [
+            'local ${1:layer_manager} = ${2:job}.LayerManager',
+            'local ${3:pos} = ${1:layer_manager}:GetHeadPosition()',
+            'while ${3:pos} ~= nil do',
+            '\tlocal ${4:layer}',
+            '\t${4:layer}, ${3:pos} = ${1:layer_manager}:GetNext(${3:pos})',
+            '\t$0',
+            'end'
+        ]
+    },
+    {
+        prefix: 'foreachlayerobject',
+        description: 'Loop over the objects on a layer',
+        body: [
+            'local ${1:pos} = ${2:layer}:GetHeadPosition()',
+            'while ${1:pos} ~= nil do',
+            '\tlocal ${3:object}',
+            '\t${3:object}, ${1:pos} = ${2:layer}:GetNext(${1:pos})',
+            '\t$0',
+            'end'
+        ]
+    },
+    {
+        prefix: 'htmldialog',
+        description: 'Show the gadget\'s HTML dialog',
+        body: [
+            'local ${1:dialog} = HTML_Dialog(false, "file:" .. ${2:script_path} .. "\\\\\\\\${3:Gadget}.htm", ${4:600}, ${5:400}, "${6:Gadget}")',
+            'if not ${1:dialog}:ShowDialog() then',
+            '\treturn false',
+            'end',
+            '$0'
+        ]
+    }
+];
+
+/**
+ * The text a snippet inserts, with its placeholders replaced by their defaults
+ */
+export function previewSnippet(snippet: GadgetSnippet): string {
+    return snippet.body.join('\n')
+        .replace(/\$\{\d+:([^}]*)\}/g, '$1')
+        .replace(/\$\d+/g, '')
+        .replace(/\\(.)/g, '$1')
+        .replace(/\t/g, '    ');
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction, ApiParameter, findClassByName, getClassWithInheritance, acceptsArgumentCount, isVariadicParameter } from './vectricApi';
+import { Expression, CallExpression, MethodCallExpression, LocalStatement, walkTree } from './luaParser';
+import { resolveName, findSymbolAt } from './luaScope';
+import { getDocumentAnalysis, LuaAnalysis } from './luaDocument';
+import { inferSymbolType, inferReceiverType } from './typeInference';
+
+// ==================== Inlay Hints ====================
+//
+// `: CadContour` after locals whose type is inferred, and parameter names
+// before the arguments of API function, constructor and method calls, so
+// long positional calls such as CreateNewRotaryJob read like named ones.
+// Each kind can be turned off with its vectric.inlayHints.* setting.
+
+const TYPE_SETTING = 'inlayHints.variableTypes';
+const PARAMETER_SETTING = 'inlayHints.parameterNames';
+
+/**
+ * Check whether a setting change turns either kind of hint on or off
+ */
+export function affectsInlayHints(e: vscode.ConfigurationChangeEvent): boolean {
+    return e.affectsConfiguration(`vectric.${TYPE_SETTING}`) || e.affectsConfiguration(`vectric.${PARAMETER_SETTING}`);
+}
+
+/**
+ * The parameter name in a label such as "pt" or "x: number"
+ */
+function parameterName(param: ApiParameter): string {
+    return param.label.split(':')[0].replace('?', '').trim();
+}
+
+/**
+ * The parameters of the API function, constructor or method a call resolves to
+ */
+function calledParameters(analysis: LuaAnalysis, call: CallExpression | MethodCallExpression, classes: ApiClass[], globalFunctions: ApiFunction[]): ApiParameter[] | null {
+    if (call.type === 'MethodCallExpression') {
+        const type = inferReceiverType(analysis.scopes, call.base, classes, globalFunctions);
+        const cls = type ? findClassByName(classes, type) : undefined;
+        const method = cls ? (getClassWithInheritance(cls, classes).methods || []).find(m => m.name === call.identifier.name) : undefined;
+        return method && method.signature ? method.signature.parameters : null;
+    }
+    if (call.base.type !== 'Identifier') {
+        return null;
+    }
+    // Gadget functions and locals shadow API names
+    const name = call.base.name;
+    const symbol = resolveName(analysis.scopes, name, call.base.start);
+    if (symbol && (symbol.kind !== 'global' || symbol.assignments.length > 0)) {
+        return null;
+    }
+    const fn = globalFunctions.find(f => f.name === name);
+    if (fn) {
+        return fn.signature ? fn.signature.parameters : null;
+    }
+    // The constructor overload the argument count picks
+    const cls = findClassByName(classes, name);
+    const constructor = cls && cls.constructors ? cls.constructors.find(c => acceptsArgumentCount(c.parameters, call.arguments.length)) : undefined;
+    return constructor ? constructor.parameters : null;
+}
+
+/**
+ * Check whether an argument already says what it is, as `bounds` or
+ * `job.bounds` do for a parameter named bounds
+ */
+function argumentMatchesName(argument: Expression, name: string): boolean {
+    const argumentName = argument.type === 'Identifier' ? argument.name
+        : argument.type === 'MemberExpression' ? argument.identifier.name
+            : null;
+    return !!argumentName && argumentName.toLowerCase().endsWith(name.toLowerCase());
+}
+
+/**
+ * `name:` before each argument of a call to the API
+ */
+function parameterHints(document: vscode.TextDocument, analysis: LuaAnalysis, call: CallExpression | MethodCallExpression, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.InlayHint[] {
+    const parameters = calledParameters(analysis, call, classes, globalFunctions);
+    // A single argument's role is clear from the function name
+    if (!parameters || parameters.length < 2) {
+        return [];
+    }
+    const hints: vscode.InlayHint[] = [];
+    call.arguments.forEach((argument, i) => {
+        const param = parameters[i];
+        if (!param || isVariadicParameter(param)) {
+            return;
+        }
+        const name = parameterName(param);
+        if (!name || argumentMatchesName(argument, name)) {
+            return;
+        }
+        const hint = new vscode.InlayHint(document.positionAt(argument.start), `${name}:`, vscode.InlayHintKind.Parameter);
+        hint.paddingRight = true;
+        hints.push(hint);
+    });
+    return hints;
+}
+
+/**
+ * `: Type` after each variable of a local statement whose type is inferred
+ */
+function typeHints(document: vscode.TextDocument, analysis: LuaAnalysis, statement: LocalStatement, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.InlayHint[] {
+    const hints: vscode.InlayHint[] = [];
+    statement.variables.forEach((variable, i) => {
+        const symbol = findSymbolAt(analysis.scopes, variable.start);
+        // An annotated type is already written out
+        if (!symbol || analysis.scopes.annotations.variables.has(symbol.nameStart)) {
+            return;
+        }
+        // So is the class of `local job = VectricJob()`
+        const value = statement.init[i];
+        const constructed = value && value.type === 'CallExpression' && value.base.type === 'Identifier' ? value.base.name : null;
+        const type = inferSymbolType(analysis.scopes, symbol, statement.end, classes, globalFunctions);
+        if (type && type !== constructed) {
+            hints.push(new vscode.InlayHint(document.positionAt(variable.end), `: ${type}`, vscode.InlayHintKind.Type));
+        }
+    });
+    return hints;
+}
+
+/**
+ * Inlay hints for the part of a document in view
+ */
+export function provideInlayHints(document: vscode.TextDocument, range: vscode.Range, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.InlayHint[] {
+    const settings = vscode.workspace.getConfiguration('vectric', document.uri);
+    const showTypes = settings.get<boolean>(TYPE_SETTING, true);
+    const showParameters = settings.get<boolean>(PARAMETER_SETTING, true);
+    if (!showTypes && !showParameters) {
+        return [];
+    }
+
+    const analysis = getDocumentAnalysis(document);
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+    const hints: vscode.InlayHint[] = [];
+
+    walkTree(analysis.chunk, node => {
+        if (node.end < start || node.start > end) {
+            return false;
+        }
+        if (showTypes && node.type === 'LocalStatement') {
+            hints.push(...typeHints(document, analysis, node, classes, globalFunctions));
+        }
+        if (showParameters && (node.type === 'CallExpression' || node.type === 'MethodCallExpression')) {
+            hints.push(...parameterHints(document, analysis, node, classes, globalFunctions));
+        }
+    });
+    return hints;
+}
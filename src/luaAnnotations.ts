@@ -0,0 +1,221 @@
+import { ParseResult, FunctionExpression, Statement, Expression, walkTree } from './luaParser';
+
+// ==================== LuaDoc Annotations ====================
+//
+// EmmyLua-style `---` comments written directly above a statement:
+//
+//     ---Finds the first selected vector
+//     ---@param job VectricJob
+//     ---@return CadContour
+//     local function GetFirstContour(job) ... end
+//
+//     ---@type CadContour
+//     local contour = nil
+//
+// A trailing `---@type` on the same line as a declaration also applies.
+
+export interface DocTag {
+    name: string;           // Parameter or return value name ('' when absent)
+    type: string;           // Type as written, e.g. "CadContour|nil"
+    description: string;
+    typeStart: number;      // Range of the type text
+    typeEnd: number;
+}
+
+export interface DocComment {
+    description: string;    // Untagged lines
+    type: DocTag | null;    // ---@type
+    params: DocTag[];       // ---@param name type description
+    returns: DocTag[];      // ---@return type [name] [description]
+}
+
+export interface AnnotationIndex {
+    comments: DocComment[];                             // Every doc comment, for checking
+    variables: Map<number, string>;                     // Declared type by identifier start offset (variables and parameters)
+    functions: Map<FunctionExpression, DocComment>;     // Documentation of functions
+}
+
+export function emptyAnnotations(): AnnotationIndex {
+    return { comments: [], variables: new Map(), functions: new Map() };
+}
+
+/**
+ * Reduce a written type to the class name inference can use: the first
+ * non-nil alternative of a union, without an optional marker.
+ * Returns null for array types and the like.
+ */
+export function annotationClassName(type: string): string | null {
+    const alternatives = type.split('|').map(t => t.trim().replace(/\?$/, '')).filter(t => t && t !== 'nil');
+    const first = alternatives[0];
+    return first && /^\w+$/.test(first) ? first : null;
+}
+
+interface CommentLine {
+    text: string;           // After "---" and leading whitespace
+    textStart: number;      // Offset of text
+}
+
+/**
+ * Split a tag's remainder into its first word and the rest, keeping offsets
+ */
+function nextWord(text: string, offset: number): { word: string; start: number; rest: string; restStart: number } {
+    const match = /^(\s*)(\S*)(\s*)/.exec(text)!;
+    const start = offset + match[1].length;
+    const restStart = offset + match[0].length;
+    return { word: match[2], start, rest: text.substring(match[0].length), restStart };
+}
+
+function parseDocLines(lines: CommentLine[]): DocComment {
+    const doc: DocComment = { description: '', type: null, params: [], returns: [] };
+    const description: string[] = [];
+
+    for (const line of lines) {
+        const tag = /^@(\w+)/.exec(line.text);
+        if (!tag) {
+            description.push(line.text);
+            continue;
+        }
+        const afterTag = nextWord(line.text.substring(tag[0].length), line.textStart + tag[0].length);
+        switch (tag[1]) {
+            case 'type':
+                if (afterTag.word) {
+                    doc.type = { name: '', type: afterTag.word, description: afterTag.rest.trim(), typeStart: afterTag.start, typeEnd: afterTag.start + afterTag.word.length };
+                }
+                break;
+            case 'param': {
+                const type = nextWord(afterTag.rest, afterTag.restStart);
+                if (afterTag.word && type.word) {
+                    doc.params.push({
+                        name: afterTag.word.replace(/\?$/, ''), type: type.word, description: type.rest.trim(),
+                        typeStart: type.start, typeEnd: type.start + type.word.length
+                    });
+                }
+                break;
+            }
+            case 'return': {
+                if (!afterTag.word) {
+                    break;
+                }
+                // ---@return Type name description, or ---@return Type # description
+                const next = nextWord(afterTag.rest, afterTag.restStart);
+                const named = /^\w+$/.test(next.word);
+                doc.returns.push({
+                    name: named ? next.word : '', type: afterTag.word,
+                    description: (named ? next.rest : afterTag.rest).replace(/^\s*#?\s*/, '').trim(),
+                    typeStart: afterTag.start, typeEnd: afterTag.start + afterTag.word.length
+                });
+                break;
+            }
+        }
+    }
+    doc.description = description.join('\n').trim();
+    return doc;
+}
+
+/**
+ * The function a statement defines, if any
+ */
+function definedFunction(statement: Statement): FunctionExpression | null {
+    if (statement.type === 'FunctionDeclaration') {
+        return statement.func;
+    }
+    if (statement.type === 'LocalStatement' || statement.type === 'AssignmentStatement') {
+        const value: Expression | undefined = statement.init[0];
+        return value && value.type === 'FunctionExpression' ? value : null;
+    }
+    return null;
+}
+
+/**
+ * Identifier start offsets of the variables a statement declares or assigns
+ */
+function declaredNames(statement: Statement): number[] {
+    if (statement.type === 'LocalStatement') {
+        return statement.variables.map(v => v.start);
+    }
+    if (statement.type === 'AssignmentStatement') {
+        return statement.variables.map(v => v.type === 'MemberExpression' ? v.identifier.start : v.start);
+    }
+    return [];
+}
+
+/**
+ * Find the doc comments of a parsed chunk and attach them to the statements
+ * and functions they document
+ */
+export function collectAnnotations(parsed: ParseResult): AnnotationIndex {
+    const index = emptyAnnotations();
+
+    // Line of each token, and the first token offset on every line
+    const tokenLine = new Map<number, number>();
+    const firstOnLine = new Map<number, number>();
+    for (const token of parsed.tokens) {
+        tokenLine.set(token.start, token.line);
+        if (!firstOnLine.has(token.line)) {
+            firstOnLine.set(token.line, token.start);
+        }
+    }
+
+    // Group `---` comments on consecutive lines into blocks, keyed by last line
+    const blocks = new Map<number, CommentLine[]>();
+    const trailing = new Map<number, CommentLine[]>();
+    let current: CommentLine[] = [];
+    let lastLine = -2;
+    for (const comment of parsed.comments) {
+        if (comment.isLong || !comment.text.startsWith('-')) {
+            lastLine = -2;
+            continue;
+        }
+        const stripped = comment.text.replace(/^-+\s*/, '');
+        // Line comment text starts right after the "--"
+        const line: CommentLine = { text: stripped.trimEnd(), textStart: comment.start + 2 + comment.text.length - stripped.length };
+        const codeBefore = (firstOnLine.get(comment.line) ?? Infinity) < comment.start;
+        if (codeBefore) {
+            trailing.set(comment.line, [line]);
+            lastLine = -2;
+            continue;
+        }
+        if (comment.line === lastLine + 1) {
+            blocks.delete(lastLine);
+        } else {
+            current = [];
+        }
+        current.push(line);
+        blocks.set(comment.line, current);
+        lastLine = comment.line;
+    }
+
+    walkTree(parsed.chunk, node => {
+        if (node.type !== 'LocalStatement' && node.type !== 'AssignmentStatement' && node.type !== 'FunctionDeclaration') {
+            return;
+        }
+        const line = tokenLine.get(node.start);
+        if (line === undefined) {
+            return;
+        }
+        const lines = [...(blocks.get(line - 1) || []), ...(trailing.get(line) || [])];
+        if (lines.length === 0) {
+            return;
+        }
+        const doc = parseDocLines(lines);
+        index.comments.push(doc);
+
+        // ---@type describes the first variable declared
+        const names = declaredNames(node);
+        if (doc.type && names.length > 0) {
+            index.variables.set(names[0], doc.type.type);
+        }
+        const func = definedFunction(node);
+        if (func) {
+            index.functions.set(func, doc);
+            for (const param of doc.params) {
+                const parameter = func.parameters.find(p => p.name === param.name && p.start < p.end);
+                if (parameter) {
+                    index.variables.set(parameter.start, param.type);
+                }
+            }
+        }
+    });
+
+    return index;
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { parseLua, reparseLua, ParseResult, SourceEdit } from './luaParser';
+import { buildScopeTree, ScopeTree } from './luaScope';
+import { collectAnnotations } from './luaAnnotations';
+
+// ==================== Document Analysis ====================
+
+export interface LuaAnalysis extends ParseResult {
+    scopes: ScopeTree;
+}
+
+interface CacheEntry {
+    version: number;
+    analysis: LuaAnalysis;
+    // Edits made since the analysis, merged into one, and the version they lead to
+    pending?: { version: number; edit: SourceEdit };
+}
+
+const analysisCache = new Map<string, CacheEntry>();
+
+/**
+ * Build the scope tree for parsed Lua source, including LuaDoc annotations
+ */
+function withScopes(parsed: ParseResult): LuaAnalysis {
+    return { ...parsed, scopes: buildScopeTree(parsed.chunk, collectAnnotations(parsed)) };
+}
+
+/**
+ * Parse Lua source and build its scope tree, including LuaDoc annotations
+ */
+export function analyzeLua(source: string): LuaAnalysis {
+    return withScopes(parseLua(source));
+}
+
+/**
+ * Get the analysis for a document. Results are cached per document version,
+ * so the many provider calls made for one keystroke share a single parse.
+ * After an edit only the top-level statements it touched are parsed again
+ * (see reparseLua); the scope tree is then rebuilt from the combined tree.
+ */
+export function getDocumentAnalysis(document: vscode.TextDocument): LuaAnalysis {
+    const key = document.uri.toString();
+    const cached = analysisCache.get(key);
+    if (cached && cached.version === document.version) {
+        return cached.analysis;
+    }
+    const analysis = cached?.pending?.version === document.version
+        ? withScopes(reparseLua(cached.analysis, document.getText(), cached.pending.edit))
+        : analyzeLua(document.getText());
+    analysisCache.set(key, { version: document.version, analysis });
+    return analysis;
+}
+
+/**
+ * Record the edits of a change event against the document's cached analysis,
+ * so the next getDocumentAnalysis can re-parse just the edited range. The
+ * changes are merged into a single edit covering all of them.
+ */
+export function recordDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    const key = event.document.uri.toString();
+    const cached = analysisCache.get(key);
+    if (!cached || event.contentChanges.length === 0) {
+        return;
+    }
+    const version = cached.pending?.version ?? cached.version;
+    if (event.document.version !== version + 1) {
+        // A change was missed, so the edits no longer describe the difference
+        cached.pending = undefined;
+        return;
+    }
+    let edit = cached.pending?.edit;
+    // The changes of one event are ordered so each one's offsets are still
+    // valid after the ones before it are applied
+    for (const change of event.contentChanges) {
+        const changeEnd = change.rangeOffset + change.rangeLength;
+        const growth = change.text.length - change.rangeLength;
+        if (!edit) {
+            edit = { start: change.rangeOffset, oldEnd: changeEnd, newEnd: changeEnd + growth };
+            continue;
+        }
+        // Outside the edited range the text is as it was, so widening the
+        // range at its end widens it by as much in the old source
+        const end = Math.max(edit.newEnd, changeEnd);
+        edit = {
+            start: Math.min(edit.start, change.rangeOffset),
+            oldEnd: edit.oldEnd + end - edit.newEnd,
+            newEnd: end + growth
+        };
+    }
+    cached.pending = { version: event.document.version, edit: edit! };
+}
+
+/**
+ * Drop the cached analysis for a closed document
+ */
+export function forgetDocument(document: vscode.TextDocument) {
+    analysisCache.delete(document.uri.toString());
+}
+
+/**
+ * Check whether an offset falls inside a comment or string literal
+ */
+export function isInCommentOrString(analysis: LuaAnalysis, offset: number): boolean {
+    if (analysis.comments.some(c => c.start < offset && offset <= c.end)) {
+        return true;
+    }
+    return analysis.tokens.some(t => t.type === 'string' && t.start < offset && offset < t.end);
+}
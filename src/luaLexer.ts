@@ -0,0 +1,295 @@
+// ==================== Lua Lexer ====================
+//
+// Tokenizer for Lua 5.x source. Comments are collected separately from the
+// token stream so the parser never sees them, but annotation support and
+// completion can still find them by offset.
+
+export type TokenType = 'name' | 'keyword' | 'number' | 'string' | 'symbol' | 'eof';
+
+export interface Token {
+    type: TokenType;
+    value: string;      // Identifier/keyword/symbol text, or decoded string contents
+    start: number;      // Offset of the first character
+    end: number;        // Offset just past the last character
+    line: number;       // Zero-based line of the first character
+}
+
+export interface Comment {
+    text: string;       // Text after the leading "--" (brackets stripped for long comments)
+    start: number;
+    end: number;
+    line: number;
+    isLong: boolean;
+}
+
+export interface LexError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export interface LexResult {
+    tokens: Token[];
+    comments: Comment[];
+    errors: LexError[];
+}
+
+export const LUA_KEYWORDS = new Set([
+    'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function',
+    'goto', 'if', 'in', 'local', 'nil', 'not', 'or', 'repeat', 'return', 'then',
+    'true', 'until', 'while'
+]);
+
+// Longest symbols first so "..." wins over ".." and "."
+const SYMBOLS = [
+    '...', '..', '==', '~=', '<=', '>=', '<<', '>>', '//', '::',
+    '+', '-', '*', '/', '%', '^', '#', '&', '~', '|', '<', '>', '=',
+    '(', ')', '{', '}', '[', ']', ';', ':', ',', '.'
+];
+
+const ESCAPES: { [key: string]: string } = {
+    'n': '\n', 't': '\t', 'r': '\r', 'a': '\x07', 'b': '\b', 'f': '\f', 'v': '\v',
+    '\\': '\\', '"': '"', '\'': '\'', '\n': '\n'
+};
+
+/**
+ * Length of a `{XXX}` code point after `\u`, or 0 when it is malformed or
+ * beyond U+10FFFF (the largest code point a JavaScript string can hold)
+ */
+function unicodeEscapeLength(source: string, pos: number): number {
+    const match = /^\{([0-9a-fA-F]{1,8})\}/.exec(source.substring(pos, pos + 10));
+    return match && parseInt(match[1], 16) <= 0x10FFFF ? match[0].length : 0;
+}
+
+function isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+}
+
+function isNameStart(ch: string): boolean {
+    return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_';
+}
+
+function isNameChar(ch: string): boolean {
+    return isNameStart(ch) || isDigit(ch);
+}
+
+/**
+ * Split Lua source into tokens and comments. Never throws: malformed input
+ * (unterminated strings, stray characters) is reported in `errors` and
+ * lexing carries on so the rest of the document can still be analyzed.
+ */
+export function tokenize(source: string): LexResult {
+    const tokens: Token[] = [];
+    const comments: Comment[] = [];
+    const errors: LexError[] = [];
+    let pos = 0;
+    let line = 0;
+
+    // Skip a shebang line, which Lua itself ignores
+    if (source.startsWith('#')) {
+        while (pos < source.length && source[pos] !== '\n') {
+            pos++;
+        }
+    }
+
+    // Returns the level of a long bracket ("[[" = 0, "[==[" = 2) starting at pos, or -1
+    const longBracketLevel = (at: number): number => {
+        if (source[at] !== '[') {
+            return -1;
+        }
+        let i = at + 1;
+        while (source[i] === '=') {
+            i++;
+        }
+        return source[i] === '[' ? i - at - 1 : -1;
+    };
+
+    // Read a long bracket body; returns the contents and advances pos past the closing bracket
+    const readLongBracket = (level: number, kind: string): string => {
+        const open = pos;
+        pos += level + 2;
+        const close = ']' + '='.repeat(level) + ']';
+        const endIndex = source.indexOf(close, pos);
+        let contentEnd: number;
+        if (endIndex < 0) {
+            errors.push({ message: `Unfinished long ${kind}`, start: open, end: source.length });
+            contentEnd = source.length;
+            pos = source.length;
+        } else {
+            contentEnd = endIndex;
+            pos = endIndex + close.length;
+        }
+        let content = source.substring(open + level + 2, contentEnd);
+        // A newline immediately after the opening bracket is skipped
+        content = content.replace(/^\r?\n/, '');
+        return content;
+    };
+
+    const countLines = (from: number, to: number) => {
+        for (let i = from; i < to; i++) {
+            if (source[i] === '\n') {
+                line++;
+            }
+        }
+    };
+
+    while (pos < source.length) {
+        const ch = source[pos];
+
+        if (ch === '\n') {
+            line++;
+            pos++;
+            continue;
+        }
+        if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f' || ch === '\v') {
+            pos++;
+            continue;
+        }
+
+        const start = pos;
+        const startLine = line;
+
+        // Comments
+        if (ch === '-' && source[pos + 1] === '-') {
+            pos += 2;
+            const level = longBracketLevel(pos);
+            if (level >= 0) {
+                const text = readLongBracket(level, 'comment');
+                comments.push({ text, start, end: pos, line: startLine, isLong: true });
+                countLines(start, pos);
+            } else {
+                while (pos < source.length && source[pos] !== '\n') {
+                    pos++;
+                }
+                const text = source.substring(start + 2, pos).replace(/\r$/, '');
+                comments.push({ text, start, end: pos, line: startLine, isLong: false });
+            }
+            continue;
+        }
+
+        // Names and keywords
+        if (isNameStart(ch)) {
+            while (pos < source.length && isNameChar(source[pos])) {
+                pos++;
+            }
+            const value = source.substring(start, pos);
+            tokens.push({ type: LUA_KEYWORDS.has(value) ? 'keyword' : 'name', value, start, end: pos, line: startLine });
+            continue;
+        }
+
+        // Numbers (decimal, hex, floats, exponents, hex floats)
+        if (isDigit(ch) || (ch === '.' && isDigit(source[pos + 1] || ''))) {
+            if (ch === '0' && (source[pos + 1] === 'x' || source[pos + 1] === 'X')) {
+                pos += 2;
+                while (pos < source.length && /[0-9a-fA-F.]/.test(source[pos])) {
+                    pos++;
+                }
+                if (source[pos] === 'p' || source[pos] === 'P') {
+                    pos++;
+                    if (source[pos] === '+' || source[pos] === '-') {
+                        pos++;
+                    }
+                    while (pos < source.length && isDigit(source[pos])) {
+                        pos++;
+                    }
+                }
+            } else {
+                while (pos < source.length && (isDigit(source[pos]) || source[pos] === '.')) {
+                    pos++;
+                }
+                if (source[pos] === 'e' || source[pos] === 'E') {
+                    pos++;
+                    if (source[pos] === '+' || source[pos] === '-') {
+                        pos++;
+                    }
+                    while (pos < source.length && isDigit(source[pos])) {
+                        pos++;
+                    }
+                }
+            }
+            tokens.push({ type: 'number', value: source.substring(start, pos), start, end: pos, line: startLine });
+            continue;
+        }
+
+        // Quoted strings
+        if (ch === '"' || ch === '\'') {
+            pos++;
+            let value = '';
+            let closed = false;
+            while (pos < source.length) {
+                const c = source[pos];
+                if (c === ch) {
+                    pos++;
+                    closed = true;
+                    break;
+                }
+                if (c === '\n') {
+                    break;
+                }
+                if (c === '\\' && pos + 1 < source.length) {
+                    const next = source[pos + 1];
+                    if (ESCAPES[next] !== undefined) {
+                        value += ESCAPES[next];
+                        if (next === '\n') {
+                            line++;
+                        }
+                        pos += 2;
+                    } else if (next === 'z') {
+                        pos += 2;
+                        while (pos < source.length && /\s/.test(source[pos])) {
+                            if (source[pos] === '\n') {
+                                line++;
+                            }
+                            pos++;
+                        }
+                    } else if (isDigit(next)) {
+                        const digits = source.substring(pos + 1).match(/^\d{1,3}/)![0];
+                        value += String.fromCharCode(parseInt(digits, 10));
+                        pos += 1 + digits.length;
+                    } else if (next === 'x' && /^[0-9a-fA-F]{2}/.test(source.substring(pos + 2, pos + 4))) {
+                        value += String.fromCharCode(parseInt(source.substring(pos + 2, pos + 4), 16));
+                        pos += 4;
+                    } else if (next === 'u' && unicodeEscapeLength(source, pos + 2) > 0) {
+                        const length = unicodeEscapeLength(source, pos + 2);
+                        value += String.fromCodePoint(parseInt(source.substring(pos + 3, pos + 1 + length), 16));
+                        pos += 2 + length;
+                    } else {
+                        value += next;
+                        pos += 2;
+                    }
+                    continue;
+                }
+                value += c;
+                pos++;
+            }
+            if (!closed) {
+                errors.push({ message: 'Unfinished string', start, end: pos });
+            }
+            tokens.push({ type: 'string', value, start, end: pos, line: startLine });
+            continue;
+        }
+
+        // Long strings
+        const level = longBracketLevel(pos);
+        if (level >= 0) {
+            const value = readLongBracket(level, 'string');
+            tokens.push({ type: 'string', value, start, end: pos, line: startLine });
+            countLines(start, pos);
+            continue;
+        }
+
+        // Operators and punctuation
+        const symbol = SYMBOLS.find(s => source.startsWith(s, pos));
+        if (symbol) {
+            pos += symbol.length;
+            tokens.push({ type: 'symbol', value: symbol, start, end: pos, line: startLine });
+            continue;
+        }
+
+        errors.push({ message: `Unexpected character '${ch}'`, start, end: pos + 1 });
+        pos++;
+    }
+
+    tokens.push({ type: 'eof', value: '<eof>', start: source.length, end: source.length, line });
+    return { tokens, comments, errors };
+}
@@ -0,0 +1,1167 @@
+import { tokenize, Token, Comment } from './luaLexer';
+
+// ==================== AST Types ====================
+//
+// Every node carries the source offsets it spans. Offsets (not line/column
+// pairs) keep the parser independent of VS Code; providers convert with
+// document.positionAt / document.offsetAt.
+
+interface BaseNode {
+    start: number;
+    end: number;
+}
+
+export interface Identifier extends BaseNode {
+    type: 'Identifier';
+    name: string;
+}
+
+export interface NilLiteral extends BaseNode {
+    type: 'NilLiteral';
+}
+
+export interface BooleanLiteral extends BaseNode {
+    type: 'BooleanLiteral';
+    value: boolean;
+}
+
+export interface NumberLiteral extends BaseNode {
+    type: 'NumberLiteral';
+    raw: string;
+}
+
+export interface StringLiteral extends BaseNode {
+    type: 'StringLiteral';
+    value: string;
+}
+
+export interface VarargLiteral extends BaseNode {
+    type: 'VarargLiteral';
+}
+
+export interface FunctionExpression extends BaseNode {
+    type: 'FunctionExpression';
+    parameters: Identifier[];
+    isVararg: boolean;
+    body: Block;
+}
+
+export interface TableKeyString extends BaseNode {
+    type: 'TableKeyString';
+    key: Identifier;
+    value: Expression;
+}
+
+export interface TableKey extends BaseNode {
+    type: 'TableKey';
+    key: Expression;
+    value: Expression;
+}
+
+export interface TableValue extends BaseNode {
+    type: 'TableValue';
+    value: Expression;
+}
+
+export type TableField = TableKeyString | TableKey | TableValue;
+
+export interface TableConstructor extends BaseNode {
+    type: 'TableConstructor';
+    fields: TableField[];
+}
+
+export interface BinaryExpression extends BaseNode {
+    type: 'BinaryExpression';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+    type: 'UnaryExpression';
+    operator: string;
+    argument: Expression;
+}
+
+export interface MemberExpression extends BaseNode {
+    type: 'MemberExpression';
+    base: Expression;
+    indexer: '.' | ':';   // ':' only appears in method function names
+    identifier: Identifier;
+}
+
+export interface IndexExpression extends BaseNode {
+    type: 'IndexExpression';
+    base: Expression;
+    index: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+    type: 'CallExpression';
+    base: Expression;
+    arguments: Expression[];
+    argsStart: number;    // Offset of "(" (or of the string/table argument)
+    argsEnd: number;      // Offset just past ")" (or the string/table argument)
+}
+
+export interface MethodCallExpression extends BaseNode {
+    type: 'MethodCallExpression';
+    base: Expression;
+    identifier: Identifier;
+    arguments: Expression[];
+    argsStart: number;
+    argsEnd: number;
+}
+
+export interface ParenExpression extends BaseNode {
+    type: 'ParenExpression';
+    expression: Expression;
+}
+
+export type Expression =
+    | Identifier
+    | NilLiteral
+    | BooleanLiteral
+    | NumberLiteral
+    | StringLiteral
+    | VarargLiteral
+    | FunctionExpression
+    | TableConstructor
+    | BinaryExpression
+    | UnaryExpression
+    | MemberExpression
+    | IndexExpression
+    | CallExpression
+    | MethodCallExpression
+    | ParenExpression;
+
+export interface Block extends BaseNode {
+    type: 'Block';
+    body: Statement[];
+}
+
+export interface LocalStatement extends BaseNode {
+    type: 'LocalStatement';
+    variables: Identifier[];
+    init: Expression[];
+}
+
+export interface AssignmentStatement extends BaseNode {
+    type: 'AssignmentStatement';
+    variables: Expression[];
+    init: Expression[];
+}
+
+export interface CallStatement extends BaseNode {
+    type: 'CallStatement';
+    expression: CallExpression | MethodCallExpression;
+}
+
+export interface DoStatement extends BaseNode {
+    type: 'DoStatement';
+    body: Block;
+}
+
+export interface WhileStatement extends BaseNode {
+    type: 'WhileStatement';
+    condition: Expression;
+    body: Block;
+}
+
+export interface RepeatStatement extends BaseNode {
+    type: 'RepeatStatement';
+    body: Block;
+    condition: Expression;
+}
+
+export interface IfClause extends BaseNode {
+    type: 'IfClause' | 'ElseifClause' | 'ElseClause';
+    condition: Expression | null;
+    body: Block;
+}
+
+export interface IfStatement extends BaseNode {
+    type: 'IfStatement';
+    clauses: IfClause[];
+}
+
+export interface NumericForStatement extends BaseNode {
+    type: 'NumericForStatement';
+    variable: Identifier;
+    from: Expression;
+    to: Expression;
+    step: Expression | null;
+    body: Block;
+}
+
+export interface GenericForStatement extends BaseNode {
+    type: 'GenericForStatement';
+    variables: Identifier[];
+    iterators: Expression[];
+    body: Block;
+}
+
+export interface FunctionDeclaration extends BaseNode {
+    type: 'FunctionDeclaration';
+    name: Identifier | MemberExpression;
+    isLocal: boolean;
+    isMethod: boolean;
+    func: FunctionExpression;
+}
+
+export interface ReturnStatement extends BaseNode {
+    type: 'ReturnStatement';
+    arguments: Expression[];
+}
+
+export interface BreakStatement extends BaseNode {
+    type: 'BreakStatement';
+}
+
+export interface GotoStatement extends BaseNode {
+    type: 'GotoStatement';
+    label: Identifier;
+}
+
+export interface LabelStatement extends BaseNode {
+    type: 'LabelStatement';
+    label: Identifier;
+}
+
+export type Statement =
+    | LocalStatement
+    | AssignmentStatement
+    | CallStatement
+    | DoStatement
+    | WhileStatement
+    | RepeatStatement
+    | IfStatement
+    | NumericForStatement
+    | GenericForStatement
+    | FunctionDeclaration
+    | ReturnStatement
+    | BreakStatement
+    | GotoStatement
+    | LabelStatement;
+
+export type Node = Expression | Statement | Block | IfClause | TableField;
+
+export interface ParseError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export interface ParseResult {
+    chunk: Block;
+    tokens: Token[];
+    comments: Comment[];
+    errors: ParseError[];
+}
+
+// ==================== Parser ====================
+
+// Binary operator priorities as [left, right], taken from lparser.c
+const BINARY_PRIORITY: { [op: string]: [number, number] } = {
+    'or': [1, 1], 'and': [2, 2],
+    '<': [3, 3], '>': [3, 3], '<=': [3, 3], '>=': [3, 3], '~=': [3, 3], '==': [3, 3],
+    '|': [4, 4], '~': [5, 5], '&': [6, 6], '<<': [7, 7], '>>': [7, 7],
+    '..': [9, 8], '+': [10, 10], '-': [10, 10],
+    '*': [11, 11], '/': [11, 11], '//': [11, 11], '%': [11, 11],
+    '^': [14, 13]
+};
+const UNARY_PRIORITY = 12;
+
+// Keywords that close the current block
+const BLOCK_END = new Set(['end', 'else', 'elseif', 'until']);
+
+// Keywords that can only start a statement, used to resynchronise after an error
+const STATEMENT_START = new Set(['local', 'function', 'if', 'for', 'while', 'repeat', 'return', 'do', 'break', 'goto']);
+
+class LuaSyntaxError {
+    constructor(public message: string, public token: Token) {}
+}
+
+class Parser {
+    private pos = 0;
+    readonly errors: ParseError[] = [];
+
+    constructor(private readonly tokens: Token[], private readonly sourceLength: number) {}
+
+    parseChunk(): Block {
+        const body = this.parseStatements();
+        while (this.current.type !== 'eof') {
+            // A stray block terminator at top level - report it and keep going
+            this.report(`'<eof>' expected near '${this.current.value}'`, this.current);
+            this.next();
+            body.push(...this.parseStatements());
+        }
+        return { type: 'Block', body, start: 0, end: this.sourceLength };
+    }
+
+    // ---------- token helpers ----------
+
+    private get current(): Token {
+        return this.tokens[this.pos];
+    }
+
+    private get previous(): Token {
+        return this.tokens[Math.max(0, this.pos - 1)];
+    }
+
+    private peek(offset = 1): Token {
+        return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.current;
+        if (token.type !== 'eof') {
+            this.pos++;
+        }
+        return token;
+    }
+
+    private is(value: string): boolean {
+        const token = this.current;
+        return (token.type === 'symbol' || token.type === 'keyword') && token.value === value;
+    }
+
+    private accept(value: string): boolean {
+        if (this.is(value)) {
+            this.next();
+            return true;
+        }
+        return false;
+    }
+
+    private expect(value: string, opener?: Token): Token {
+        if (this.is(value)) {
+            return this.next();
+        }
+        const near = this.current.type === 'eof' ? '<eof>' : this.current.value;
+        const where = opener ? ` (to close '${opener.value}' at line ${opener.line + 1})` : '';
+        throw new LuaSyntaxError(`'${value}' expected${where} near '${near}'`, this.current);
+    }
+
+    /**
+     * Consume the "end" closing a construct. A missing "end" is reported but
+     * not thrown, so an unfinished function at the bottom of the file still
+     * produces its scope; the construct then extends up to the next token.
+     */
+    private expectEnd(opener: Token): number {
+        if (this.is('end')) {
+            return this.next().end;
+        }
+        const near = this.current.type === 'eof' ? '<eof>' : this.current.value;
+        this.report(`'end' expected (to close '${opener.value}' at line ${opener.line + 1}) near '${near}'`, this.current);
+        return this.current.start;
+    }
+
+    private expectName(): Identifier {
+        const token = this.current;
+        if (token.type !== 'name') {
+            const near = token.type === 'eof' ? '<eof>' : token.value;
+            throw new LuaSyntaxError(`<name> expected near '${near}'`, token);
+        }
+        this.next();
+        return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+    }
+
+    private report(message: string, token: Token) {
+        this.errors.push({ message, start: token.start, end: Math.max(token.end, token.start + 1) });
+    }
+
+    // ---------- blocks and statements ----------
+
+    private blockFollows(): boolean {
+        const token = this.current;
+        return token.type === 'eof' || (token.type === 'keyword' && BLOCK_END.has(token.value));
+    }
+
+    /**
+     * Parse statements until a block terminator. Errors are recovered here,
+     * at the innermost block, so one bad line doesn't discard the scopes
+     * around it.
+     */
+    private parseStatements(): Statement[] {
+        const body: Statement[] = [];
+        while (!this.blockFollows()) {
+            const before = this.pos;
+            try {
+                if (this.is('return')) {
+                    body.push(this.parseReturn());
+                    break;
+                }
+                const statement = this.parseStatement();
+                if (statement) {
+                    body.push(statement);
+                }
+            } catch (err) {
+                if (!(err instanceof LuaSyntaxError)) {
+                    throw err;
+                }
+                this.report(err.message, err.token);
+                this.synchronize(before);
+            }
+        }
+        return body;
+    }
+
+    /**
+     * Skip tokens after a syntax error until something that plausibly starts
+     * a new statement: a statement keyword, a block terminator, or a name at
+     * the start of a new line.
+     */
+    private synchronize(statementStart: number) {
+        if (this.pos === statementStart) {
+            this.next();
+        }
+        while (this.current.type !== 'eof') {
+            const token = this.current;
+            if (token.type === 'keyword' && (STATEMENT_START.has(token.value) || BLOCK_END.has(token.value))) {
+                return;
+            }
+            if (token.type === 'name' && token.line > this.previous.line) {
+                return;
+            }
+            this.next();
+        }
+    }
+
+    private parseBlock(start: number): Block {
+        const body = this.parseStatements();
+        return { type: 'Block', body, start, end: this.current.start };
+    }
+
+    private parseStatement(): Statement | null {
+        const token = this.current;
+
+        if (token.type === 'symbol') {
+            if (token.value === ';') {
+                this.next();
+                return null;
+            }
+            if (token.value === '::') {
+                this.next();
+                const label = this.expectName();
+                this.expect('::');
+                return { type: 'LabelStatement', label, start: token.start, end: this.previous.end };
+            }
+        }
+
+        if (token.type === 'keyword') {
+            switch (token.value) {
+                case 'if': return this.parseIf();
+                case 'while': return this.parseWhile();
+                case 'do': {
+                    this.next();
+                    const body = this.parseBlock(this.previous.end);
+                    const end = this.expectEnd(token);
+                    return { type: 'DoStatement', body, start: token.start, end };
+                }
+                case 'for': return this.parseFor();
+                case 'repeat': return this.parseRepeat();
+                case 'function': return this.parseFunctionDeclaration(token.start, false);
+                case 'local':
+                    this.next();
+                    if (this.is('function')) {
+                        return this.parseFunctionDeclaration(token.start, true);
+                    }
+                    return this.parseLocal(token.start);
+                case 'break':
+                    this.next();
+                    return { type: 'BreakStatement', start: token.start, end: token.end };
+                case 'goto': {
+                    this.next();
+                    const label = this.expectName();
+                    return { type: 'GotoStatement', label, start: token.start, end: label.end };
+                }
+            }
+        }
+
+        return this.parseExpressionStatement();
+    }
+
+    private parseIf(): IfStatement {
+        const ifToken = this.next();
+        const clauses: IfClause[] = [];
+
+        const condition = this.parseExpression();
+        this.expect('then');
+        let body = this.parseBlock(this.previous.end);
+        clauses.push({ type: 'IfClause', condition, body, start: ifToken.start, end: body.end });
+
+        while (this.is('elseif')) {
+            const clauseToken = this.next();
+            const elseifCondition = this.parseExpression();
+            this.expect('then');
+            body = this.parseBlock(this.previous.end);
+            clauses.push({ type: 'ElseifClause', condition: elseifCondition, body, start: clauseToken.start, end: body.end });
+        }
+
+        if (this.is('else')) {
+            const clauseToken = this.next();
+            body = this.parseBlock(clauseToken.end);
+            clauses.push({ type: 'ElseClause', condition: null, body, start: clauseToken.start, end: body.end });
+        }
+
+        const end = this.expectEnd(ifToken);
+        return { type: 'IfStatement', clauses, start: ifToken.start, end };
+    }
+
+    private parseWhile(): WhileStatement {
+        const whileToken = this.next();
+        const condition = this.parseExpression();
+        this.expect('do');
+        const body = this.parseBlock(this.previous.end);
+        const end = this.expectEnd(whileToken);
+        return { type: 'WhileStatement', condition, body, start: whileToken.start, end };
+    }
+
+    private parseRepeat(): RepeatStatement {
+        const repeatToken = this.next();
+        const body = this.parseBlock(repeatToken.end);
+        this.expect('until', repeatToken);
+        const condition = this.parseExpression();
+        // The until condition can see the body's locals, so the block extends over it
+        body.end = condition.end;
+        return { type: 'RepeatStatement', body, condition, start: repeatToken.start, end: condition.end };
+    }
+
+    private parseFor(): NumericForStatement | GenericForStatement {
+        const forToken = this.next();
+        const first = this.expectName();
+
+        if (this.accept('=')) {
+            const from = this.parseExpression();
+            this.expect(',');
+            const to = this.parseExpression();
+            const step = this.accept(',') ? this.parseExpression() : null;
+            this.expect('do');
+            const body = this.parseBlock(this.previous.end);
+            const end = this.expectEnd(forToken);
+            return { type: 'NumericForStatement', variable: first, from, to, step, body, start: forToken.start, end };
+        }
+
+        const variables = [first];
+        while (this.accept(',')) {
+            variables.push(this.expectName());
+        }
+        this.expect('in');
+        const iterators = this.parseExpressionList();
+        this.expect('do');
+        const body = this.parseBlock(this.previous.end);
+        const end = this.expectEnd(forToken);
+        return { type: 'GenericForStatement', variables, iterators, body, start: forToken.start, end };
+    }
+
+    private parseFunctionDeclaration(start: number, isLocal: boolean): FunctionDeclaration {
+        const functionToken = this.next();
+        let name: Identifier | MemberExpression = this.expectName();
+        let isMethod = false;
+
+        if (!isLocal) {
+            while (this.is('.') || this.is(':')) {
+                const indexer = this.next().value as '.' | ':';
+                const identifier = this.expectName();
+                name = { type: 'MemberExpression', base: name, indexer, identifier, start: name.start, end: identifier.end };
+                if (indexer === ':') {
+                    isMethod = true;
+                    break;
+                }
+            }
+        }
+
+        const func = this.parseFunctionBody(functionToken, isMethod);
+        return { type: 'FunctionDeclaration', name, isLocal, isMethod, func, start, end: func.end };
+    }
+
+    private parseFunctionBody(functionToken: Token, isMethod: boolean): FunctionExpression {
+        const parameters: Identifier[] = [];
+        let isVararg = false;
+
+        if (isMethod) {
+            // Implicit first parameter; zero-width at the "function" keyword
+            parameters.push({ type: 'Identifier', name: 'self', start: functionToken.start, end: functionToken.start });
+        }
+
+        const open = this.expect('(');
+        if (!this.is(')')) {
+            do {
+                if (this.accept('...')) {
+                    isVararg = true;
+                    break;
+                }
+                parameters.push(this.expectName());
+            } while (this.accept(','));
+        }
+        this.expect(')', open);
+
+        const body = this.parseBlock(this.previous.end);
+        const end = this.expectEnd(functionToken);
+        return { type: 'FunctionExpression', parameters, isVararg, body, start: functionToken.start, end };
+    }
+
+    private parseLocal(start: number): LocalStatement {
+        const variables: Identifier[] = [];
+        do {
+            variables.push(this.expectName());
+            // Lua 5.4 attributes: <const> / <close>
+            if (this.accept('<')) {
+                this.expectName();
+                this.expect('>');
+            }
+        } while (this.accept(','));
+
+        const init = this.accept('=') ? this.parseExpressionList() : [];
+        const end = init.length > 0 ? init[init.length - 1].end : variables[variables.length - 1].end;
+        return { type: 'LocalStatement', variables, init, start, end };
+    }
+
+    private parseReturn(): ReturnStatement {
+        const returnToken = this.next();
+        let args: Expression[] = [];
+        if (!this.blockFollows() && !this.is(';')) {
+            args = this.parseExpressionList();
+        }
+        this.accept(';');
+        const end = args.length > 0 ? args[args.length - 1].end : returnToken.end;
+        return { type: 'ReturnStatement', arguments: args, start: returnToken.start, end };
+    }
+
+    private parseExpressionStatement(): Statement {
+        const first = this.parseSuffixedExpression();
+
+        if (this.is('=') || this.is(',')) {
+            const variables = [first];
+            while (this.accept(',')) {
+                variables.push(this.parseSuffixedExpression());
+            }
+            for (const variable of variables) {
+                if (variable.type !== 'Identifier' && variable.type !== 'MemberExpression' && variable.type !== 'IndexExpression') {
+                    throw new LuaSyntaxError('Syntax error: cannot assign to this expression', this.tokenAt(variable.start));
+                }
+            }
+            this.expect('=');
+            const init = this.parseExpressionList();
+            return { type: 'AssignmentStatement', variables, init, start: first.start, end: init[init.length - 1].end };
+        }
+
+        if (first.type !== 'CallExpression' && first.type !== 'MethodCallExpression') {
+            throw new LuaSyntaxError('Syntax error: expression is not a statement', this.tokenAt(first.start));
+        }
+        return { type: 'CallStatement', expression: first, start: first.start, end: first.end };
+    }
+
+    /**
+     * Parse all the tokens as one prefix expression, or return null if they
+     * are not exactly one
+     */
+    parsePrefixExpression(): Expression | null {
+        try {
+            const expression = this.parseSuffixedExpression();
+            return this.current.type === 'eof' && this.errors.length === 0 ? expression : null;
+        } catch (err) {
+            if (!(err instanceof LuaSyntaxError)) {
+                throw err;
+            }
+            return null;
+        }
+    }
+
+    private tokenAt(offset: number): Token {
+        return this.tokens.find(t => t.start === offset) || this.current;
+    }
+
+    // ---------- expressions ----------
+
+    private parseExpressionList(): Expression[] {
+        const list = [this.parseExpression()];
+        while (this.accept(',')) {
+            list.push(this.parseExpression());
+        }
+        return list;
+    }
+
+    parseExpression(limit = 0): Expression {
+        let left: Expression;
+        const token = this.current;
+
+        if ((token.type === 'keyword' && token.value === 'not') ||
+            (token.type === 'symbol' && (token.value === '-' || token.value === '#' || token.value === '~'))) {
+            this.next();
+            const argument = this.parseExpression(UNARY_PRIORITY);
+            left = { type: 'UnaryExpression', operator: token.value, argument, start: token.start, end: argument.end };
+        } else {
+            left = this.parseSimpleExpression();
+        }
+
+        for (;;) {
+            const op = this.current;
+            const priority = (op.type === 'symbol' || op.type === 'keyword') ? BINARY_PRIORITY[op.value] : undefined;
+            if (!priority || priority[0] <= limit) {
+                break;
+            }
+            this.next();
+            const right = this.parseExpression(priority[1]);
+            left = { type: 'BinaryExpression', operator: op.value, left, right, start: left.start, end: right.end };
+        }
+
+        return left;
+    }
+
+    private parseSimpleExpression(): Expression {
+        const token = this.current;
+
+        switch (token.type) {
+            case 'number':
+                this.next();
+                return { type: 'NumberLiteral', raw: token.value, start: token.start, end: token.end };
+            case 'string':
+                this.next();
+                return { type: 'StringLiteral', value: token.value, start: token.start, end: token.end };
+            case 'keyword':
+                switch (token.value) {
+                    case 'nil':
+                        this.next();
+                        return { type: 'NilLiteral', start: token.start, end: token.end };
+                    case 'true':
+                    case 'false':
+                        this.next();
+                        return { type: 'BooleanLiteral', value: token.value === 'true', start: token.start, end: token.end };
+                    case 'function':
+                        this.next();
+                        return this.parseFunctionBody(token, false);
+                }
+                break;
+            case 'symbol':
+                if (token.value === '...') {
+                    this.next();
+                    return { type: 'VarargLiteral', start: token.start, end: token.end };
+                }
+                if (token.value === '{') {
+                    return this.parseTable();
+                }
+                break;
+        }
+
+        return this.parseSuffixedExpression();
+    }
+
+    private parsePrimaryExpression(): Expression {
+        const token = this.current;
+        if (token.type === 'name') {
+            return this.expectName();
+        }
+        if (this.is('(')) {
+            this.next();
+            const expression = this.parseExpression();
+            this.expect(')', token);
+            return { type: 'ParenExpression', expression, start: token.start, end: this.previous.end };
+        }
+        const near = token.type === 'eof' ? '<eof>' : token.value;
+        throw new LuaSyntaxError(`Unexpected symbol near '${near}'`, token);
+    }
+
+    private parseSuffixedExpression(): Expression {
+        let expression = this.parsePrimaryExpression();
+
+        for (;;) {
+            const token = this.current;
+            if (this.is('.')) {
+                this.next();
+                const identifier = this.expectName();
+                expression = { type: 'MemberExpression', base: expression, indexer: '.', identifier, start: expression.start, end: identifier.end };
+            } else if (this.is('[')) {
+                this.next();
+                const index = this.parseExpression();
+                this.expect(']', token);
+                expression = { type: 'IndexExpression', base: expression, index, start: expression.start, end: this.previous.end };
+            } else if (this.is(':')) {
+                this.next();
+                const identifier = this.expectName();
+                const args = this.parseCallArguments();
+                expression = {
+                    type: 'MethodCallExpression', base: expression, identifier,
+                    arguments: args.list, argsStart: args.start, argsEnd: args.end,
+                    start: expression.start, end: args.end
+                };
+            } else if (this.is('(') || this.is('{') || token.type === 'string') {
+                const args = this.parseCallArguments();
+                expression = {
+                    type: 'CallExpression', base: expression,
+                    arguments: args.list, argsStart: args.start, argsEnd: args.end,
+                    start: expression.start, end: args.end
+                };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parseCallArguments(): { list: Expression[]; start: number; end: number } {
+        const token = this.current;
+        if (token.type === 'string') {
+            this.next();
+            return { list: [{ type: 'StringLiteral', value: token.value, start: token.start, end: token.end }], start: token.start, end: token.end };
+        }
+        if (this.is('{')) {
+            const table = this.parseTable();
+            return { list: [table], start: table.start, end: table.end };
+        }
+        const open = this.expect('(');
+        const list = this.is(')') ? [] : this.parseExpressionList();
+        this.expect(')', open);
+        return { list, start: open.start, end: this.previous.end };
+    }
+
+    private parseTable(): TableConstructor {
+        const open = this.expect('{');
+        const fields: TableField[] = [];
+
+        while (!this.is('}')) {
+            const token = this.current;
+            if (token.type === 'name' && this.peek().type === 'symbol' && this.peek().value === '=') {
+                const key = this.expectName();
+                this.next();
+                const value = this.parseExpression();
+                fields.push({ type: 'TableKeyString', key, value, start: key.start, end: value.end });
+            } else if (this.is('[')) {
+                this.next();
+                const key = this.parseExpression();
+                this.expect(']', token);
+                this.expect('=');
+                const value = this.parseExpression();
+                fields.push({ type: 'TableKey', key, value, start: token.start, end: value.end });
+            } else {
+                const value = this.parseExpression();
+                fields.push({ type: 'TableValue', value, start: value.start, end: value.end });
+            }
+            if (!this.accept(',') && !this.accept(';')) {
+                break;
+            }
+        }
+
+        this.expect('}', open);
+        return { type: 'TableConstructor', fields, start: open.start, end: this.previous.end };
+    }
+}
+
+/**
+ * Parse a Lua 5.x chunk. Syntax errors never throw: they are collected in
+ * `errors` and the parser resynchronises at the next statement, so partially
+ * typed code still yields a usable tree for everything around the cursor.
+ */
+export function parseLua(source: string): ParseResult {
+    const lexed = tokenize(source);
+    const parser = new Parser(lexed.tokens, source.length);
+    const chunk = parser.parseChunk();
+    return {
+        chunk,
+        tokens: lexed.tokens,
+        comments: lexed.comments,
+        errors: [...lexed.errors, ...parser.errors]
+    };
+}
+
+// ==================== Incremental Parsing ====================
+
+/**
+ * An edit between two versions of a source: `[start, oldEnd)` in the old
+ * source was replaced by `[start, newEnd)` in the new one
+ */
+export interface SourceEdit {
+    start: number;
+    oldEnd: number;
+    newEnd: number;
+}
+
+/**
+ * Index of the first token (or comment) starting at or after an offset
+ */
+function firstTokenFrom<T extends { start: number }>(items: T[], offset: number): number {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (items[mid].start < offset) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+function countNewlines(source: string, from: number, to: number): number {
+    let count = 0;
+    for (let i = source.indexOf('\n', from); i >= 0 && i < to; i = source.indexOf('\n', i + 1)) {
+        count++;
+    }
+    return count;
+}
+
+// Fields of nodes, tokens, comments and errors that hold source offsets
+const OFFSET_FIELDS = new Set(['start', 'end', 'argsStart', 'argsEnd']);
+
+/**
+ * Copy a subtree with every offset moved by `by`. Reused nodes are copied
+ * rather than moved so the previous result stays valid for anyone holding it.
+ */
+function shiftOffsets<T>(value: T, by: number): T {
+    if (Array.isArray(value)) {
+        return value.map(item => shiftOffsets(item, by)) as unknown as T;
+    }
+    const copy = { ...value } as { [key: string]: unknown };
+    for (const key in copy) {
+        const field = copy[key];
+        if (typeof field === 'number') {
+            if (OFFSET_FIELDS.has(key)) {
+                copy[key] = field + by;
+            }
+        } else if (field !== null && typeof field === 'object') {
+            copy[key] = shiftOffsets(field, by);
+        }
+    }
+    return copy as T;
+}
+
+/**
+ * Re-parse a source after an edit, reusing the previous result for the
+ * top-level statements outside it. Only the statements the edit touches are
+ * lexed and parsed again, together with one untouched statement on each
+ * side: the one before may run on into the edit (`x = a` followed by a new
+ * `.b`), and the one after shows where the re-parsed text rejoins the old
+ * tree. When it doesn't rejoin there - the edit opened a block or a long
+ * string that swallows what follows - the whole source is parsed instead.
+ */
+export function reparseLua(previous: ParseResult, source: string, edit: SourceEdit): ParseResult {
+    const body = previous.chunk.body;
+    const delta = edit.newEnd - edit.oldEnd;
+
+    let first = body.findIndex(statement => statement.end >= edit.start);
+    if (first < 0) {
+        first = body.length;
+    }
+    let next = first;
+    while (next < body.length && body[next].start <= edit.oldEnd) {
+        next++;
+    }
+    const kept = Math.max(first - 1, 0);
+    const regionStart = first > 0 ? body[first - 1].start : 0;
+    if (regionStart > 0 && previous.errors.some(error => error.start === regionStart)) {
+        // A statement's error can be reported at the token after it, so this
+        // one may belong to the statement before the region as well as to it
+        return parseLua(source);
+    }
+    const rejoin = next < body.length ? body[next] : null;
+    const oldRegionEnd = rejoin ? rejoin.end : previous.chunk.end;
+    const regionEnd = oldRegionEnd + delta;
+
+    // Lex the region with the lines it really starts on, since the parser
+    // compares token lines when it recovers from errors
+    const lineBase = regionStart > 0 ? previous.tokens[firstTokenFrom(previous.tokens, regionStart)].line : 0;
+    const lexed = tokenize(source.substring(regionStart, regionEnd));
+    lexed.tokens.forEach(token => token.line += lineBase);
+    lexed.comments.forEach(comment => comment.line += lineBase);
+    const parser = new Parser(lexed.tokens, regionEnd - regionStart);
+    const region = parser.parseChunk().body;
+
+    const regionErrors = [...lexed.errors, ...parser.errors];
+    const last = region[region.length - 1];
+    if (rejoin && !(last && last.start + regionStart === rejoin.start + delta && last.end + regionStart === regionEnd)) {
+        return parseLua(source);
+    }
+    if (rejoin && regionErrors.some(error => error.start + regionStart >= regionEnd)) {
+        // The parser wanted the token after the region, which it didn't see
+        return parseLua(source);
+    }
+
+    // The first token after the region tells how far the lines below moved
+    const suffixToken = firstTokenFrom(previous.tokens, oldRegionEnd);
+    const anchor = previous.tokens[suffixToken];
+    const lineDelta = lineBase + countNewlines(source, regionStart, anchor.start + delta) - anchor.line;
+    const suffixErrors = rejoin ? previous.errors.filter(error => error.start >= oldRegionEnd) : [];
+    if (lineDelta !== 0 && suffixErrors.length > 0) {
+        // Their messages quote line numbers that would now be stale
+        return parseLua(source);
+    }
+
+    const moved = <T extends { line: number }>(item: T): T => ({ ...shiftOffsets(item, delta), line: item.line + lineDelta });
+    const suffixComment = firstTokenFrom(previous.comments, oldRegionEnd);
+    return {
+        chunk: {
+            type: 'Block',
+            body: [
+                ...body.slice(0, kept),
+                ...region.map(statement => shiftOffsets(statement, regionStart)),
+                ...body.slice(next + (rejoin ? 1 : 0)).map(statement => shiftOffsets(statement, delta))
+            ],
+            start: 0,
+            end: source.length
+        },
+        tokens: [
+            ...previous.tokens.slice(0, firstTokenFrom(previous.tokens, regionStart)),
+            ...lexed.tokens.slice(0, -1).map(token => shiftOffsets(token, regionStart)),
+            ...previous.tokens.slice(suffixToken).map(moved)
+        ],
+        comments: [
+            ...previous.comments.slice(0, firstTokenFrom(previous.comments, regionStart)),
+            ...lexed.comments.map(comment => shiftOffsets(comment, regionStart)),
+            ...previous.comments.slice(suffixComment).map(moved)
+        ],
+        errors: [
+            ...previous.errors.filter(error => error.start < regionStart),
+            ...regionErrors.map(error => shiftOffsets(error, regionStart)),
+            ...suffixErrors.map(error => shiftOffsets(error, delta))
+        ]
+    };
+}
+
+// ==================== Tree Walking ====================
+
+/**
+ * Get the direct children of a node, in source order
+ */
+export function childNodes(node: Node): Node[] {
+    switch (node.type) {
+        case 'Block': return node.body;
+        case 'LocalStatement': return [...node.variables, ...node.init];
+        case 'AssignmentStatement': return [...node.variables, ...node.init];
+        case 'CallStatement': return [node.expression];
+        case 'DoStatement': return [node.body];
+        case 'WhileStatement': return [node.condition, node.body];
+        case 'RepeatStatement': return [node.body, node.condition];
+        case 'IfStatement': return node.clauses;
+        case 'IfClause':
+        case 'ElseifClause':
+        case 'ElseClause': return node.condition ? [node.condition, node.body] : [node.body];
+        case 'NumericForStatement': return [node.variable, node.from, node.to, ...(node.step ? [node.step] : []), node.body];
+        case 'GenericForStatement': return [...node.variables, ...node.iterators, node.body];
+        case 'FunctionDeclaration': return [node.name, node.func];
+        case 'ReturnStatement': return node.arguments;
+        case 'GotoStatement':
+        case 'LabelStatement': return [node.label];
+        case 'FunctionExpression': return [...node.parameters, node.body];
+        case 'TableConstructor': return node.fields;
+        case 'TableKeyString': return [node.key, node.value];
+        case 'TableKey': return [node.key, node.value];
+        case 'TableValue': return [node.value];
+        case 'BinaryExpression': return [node.left, node.right];
+        case 'UnaryExpression': return [node.argument];
+        case 'MemberExpression': return [node.base, node.identifier];
+        case 'IndexExpression': return [node.base, node.index];
+        case 'CallExpression': return [node.base, ...node.arguments];
+        case 'MethodCallExpression': return [node.base, node.identifier, ...node.arguments];
+        case 'ParenExpression': return [node.expression];
+        default: return [];
+    }
+}
+
+/**
+ * Visit a node and all of its descendants depth-first. Returning false from
+ * the visitor skips that node's children.
+ */
+export function walkTree(node: Node, visitor: (node: Node, parent: Node | null) => boolean | void, parent: Node | null = null) {
+    if (visitor(node, parent) === false) {
+        return;
+    }
+    for (const child of childNodes(node)) {
+        walkTree(child, visitor, node);
+    }
+}
+
+/**
+ * A `.name` or `:name` access, from a member expression or a method call
+ */
+export interface MemberAccess {
+    base: Expression;
+    identifier: Identifier;
+    indexer: '.' | ':';
+}
+
+/**
+ * Find the member access whose name contains the given offset
+ */
+export function findMemberAt(root: Node, offset: number): MemberAccess | null {
+    let found: MemberAccess | null = null;
+    const named = (identifier: Identifier) => identifier.start < identifier.end && identifier.start <= offset && offset <= identifier.end;
+
+    walkTree(root, node => {
+        if (found || offset < node.start || offset > node.end) {
+            return false;
+        }
+        if (node.type === 'MemberExpression' && named(node.identifier)) {
+            found = { base: node.base, identifier: node.identifier, indexer: node.indexer };
+        } else if (node.type === 'MethodCallExpression' && named(node.identifier)) {
+            found = { base: node.base, identifier: node.identifier, indexer: ':' };
+        }
+    });
+    return found;
+}
+
+/**
+ * Index of the "(" or "[" that a ")" or "]" at `close` closes, or -1
+ */
+function findOpener(tokens: Token[], close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.type !== 'symbol') {
+            continue;
+        }
+        if (token.value === ')' || token.value === ']' || token.value === '}') {
+            depth++;
+        } else if ((token.value === '(' || token.value === '[' || token.value === '{') && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parse the prefix expression that ends with tokens[last]: a name or
+ * parenthesised expression followed by any chain of .field, [index],
+ * :method(...) and calls, as in `job:GetActiveLayer():` or `a.b.c.`. This
+ * works from the tokens alone, so it also finds the receiver in a statement
+ * still being typed, for which the tree has no node. Offsets are those of
+ * the source, so names resolve against the document's scopes.
+ */
+export function parsePrefixExpressionBefore(tokens: Token[], last: number): Expression | null {
+    const isSymbol = (token: Token | undefined, ...values: string[]) => !!token && token.type === 'symbol' && values.includes(token.value);
+    let start = last;
+    for (;;) {
+        const token = tokens[start];
+        if (!token) {
+            return null;
+        }
+        if (isSymbol(token, ')', ']')) {
+            const opener = findOpener(tokens, start);
+            if (opener < 0) {
+                return null;
+            }
+            const before = tokens[opener - 1];
+            // A "(" after a name, ")" or "]" holds call arguments; otherwise it groups
+            if (tokens[opener].value === '(' && !(before && (before.type === 'name' || isSymbol(before, ')', ']')))) {
+                start = opener;
+                break;
+            }
+            start = opener - 1;
+        } else if (token.type === 'name') {
+            // A name after ':' is only part of the chain when it is called, so
+            // an unfinished `obj:` on the line above doesn't swallow this one
+            const separator = tokens[start - 1];
+            const called = isSymbol(tokens[start + 1], '(', '{') || tokens[start + 1]?.type === 'string';
+            if (!isSymbol(separator, '.') && !(isSymbol(separator, ':') && called)) {
+                break;
+            }
+            start -= 2;
+        } else {
+            return null;
+        }
+    }
+
+    const end = tokens[last].end;
+    const eof: Token = { type: 'eof', value: '', start: end, end, line: tokens[last].line };
+    return new Parser([...tokens.slice(start, last + 1), eof], end).parsePrefixExpression();
+}
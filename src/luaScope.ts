@@ -0,0 +1,621 @@
+import {
+    Block, Statement, Expression, Identifier, FunctionExpression
+} from './luaParser';
+import { AnnotationIndex, emptyAnnotations } from './luaAnnotations';
+
+// ==================== Scope Types ====================
+
+export type ScopeKind = 'chunk' | 'function' | 'block';
+
+export interface Scope {
+    kind: ScopeKind;
+    start: number;
+    end: number;
+    parent: Scope | null;
+    children: Scope[];
+    symbols: LuaSymbol[];       // In declaration order, so later entries shadow earlier ones
+    upvalues: LuaSymbol[];      // Function scopes only: outer locals referenced from inside
+    func?: FunctionExpression;  // Function scopes only
+    isLoop: boolean;            // Body of a while, repeat or for loop
+}
+
+export type SymbolKind = 'local' | 'parameter' | 'forVariable' | 'global';
+
+/**
+ * One write to a symbol. For `local a, b = f()` both symbols point at the
+ * same call and differ only in `valueIndex`.
+ */
+export interface SymbolAssignment {
+    start: number;              // Start of the assigning statement
+    end: number;
+    value: Expression | null;   // null when the symbol is assigned nil (or nothing)
+    valueIndex: number;         // Which of the value's return values lands in the symbol
+    target: Identifier | null;  // The name written to (variable, field name or table key)
+    iterator?: boolean;         // Generic for variable: value is the `in` expression, not the assigned value
+}
+
+/**
+ * A named field of a table held in a symbol (or in another field), such as
+ * `M.helper` in `function M.helper()` or `x` in `local M = { x = 1 }`.
+ */
+export interface LuaField {
+    name: string;
+    assignments: SymbolAssignment[];
+    references: Identifier[];   // Every `.name`/`:name` occurrence, including writes
+    fields: Map<string, LuaField>;
+}
+
+export interface LuaSymbol {
+    name: string;
+    kind: SymbolKind;
+    scope: Scope;
+    nameStart: number;          // Range of the declaring identifier
+    nameEnd: number;
+    visibleFrom: number;        // Offset from which the name resolves to this symbol
+    assignments: SymbolAssignment[];
+    references: Identifier[];   // Every identifier (reads and writes) bound to this symbol
+    isUpvalue: boolean;
+    fields: Map<string, LuaField>;
+}
+
+export interface ScopeTree {
+    root: Scope;
+    globals: Map<string, LuaSymbol>;
+    annotations: AnnotationIndex;   // LuaDoc types declared in the chunk
+}
+
+// ==================== Scope Builder ====================
+
+function isMultiValue(expression: Expression): boolean {
+    return expression.type === 'CallExpression' ||
+        expression.type === 'MethodCallExpression' ||
+        expression.type === 'VarargLiteral';
+}
+
+/**
+ * Work out which expression (and which of its return values) the i-th
+ * target of a multi-assignment receives, following Lua's adjustment rules.
+ */
+function assignmentFor(init: Expression[], i: number, start: number, end: number, target: Identifier | null): SymbolAssignment {
+    if (i < init.length) {
+        return { start, end, value: init[i], valueIndex: 0, target };
+    }
+    const last = init[init.length - 1];
+    if (last && isMultiValue(last)) {
+        return { start, end, value: last, valueIndex: i - (init.length - 1), target };
+    }
+    return { start, end, value: null, valueIndex: 0, target };
+}
+
+/**
+ * Anything that can hold named fields: a symbol or another field
+ */
+interface FieldOwner {
+    fields: Map<string, LuaField>;
+}
+
+/**
+ * Get (or create) the field of an owner for a `.name` occurrence and record
+ * the occurrence as a reference.
+ */
+function fieldOf(owner: FieldOwner, identifier: Identifier): LuaField {
+    let field = owner.fields.get(identifier.name);
+    if (!field) {
+        field = { name: identifier.name, assignments: [], references: [], fields: new Map() };
+        owner.fields.set(identifier.name, field);
+    }
+    field.references.push(identifier);
+    return field;
+}
+
+/**
+ * Record an assignment and, when the value is a table constructor, the
+ * `key = value` fields it defines.
+ */
+function addAssignment(owner: FieldOwner & { assignments: SymbolAssignment[] }, assignment: SymbolAssignment) {
+    owner.assignments.push(assignment);
+    const value = assignment.value;
+    if (!value || value.type !== 'TableConstructor' || assignment.valueIndex !== 0 || assignment.iterator) {
+        return;
+    }
+    for (const entry of value.fields) {
+        if (entry.type === 'TableKeyString') {
+            addAssignment(fieldOf(owner, entry.key), {
+                start: entry.start, end: entry.end, value: entry.value, valueIndex: 0, target: entry.key
+            });
+        }
+    }
+}
+
+function functionScopeOf(scope: Scope): Scope {
+    let current = scope;
+    while (current.kind === 'block' && current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
+
+class ScopeBuilder {
+    readonly globals = new Map<string, LuaSymbol>();
+    readonly root: Scope;
+    private current: Scope;
+
+    constructor(sourceLength: number) {
+        this.root = this.createScope('chunk', 0, sourceLength, null);
+        this.current = this.root;
+    }
+
+    private createScope(kind: ScopeKind, start: number, end: number, parent: Scope | null): Scope {
+        const scope: Scope = { kind, start, end, parent, children: [], symbols: [], upvalues: [], isLoop: false };
+        if (parent) {
+            parent.children.push(scope);
+        }
+        return scope;
+    }
+
+    private withScope(kind: ScopeKind, start: number, end: number, body: (scope: Scope) => void, func?: FunctionExpression) {
+        const scope = this.createScope(kind, start, end, this.current);
+        scope.func = func;
+        const saved = this.current;
+        this.current = scope;
+        body(scope);
+        this.current = saved;
+    }
+
+    private declare(identifier: Identifier, kind: SymbolKind, visibleFrom: number, assignment: SymbolAssignment | null): LuaSymbol {
+        const symbol: LuaSymbol = {
+            name: identifier.name,
+            kind,
+            scope: this.current,
+            nameStart: identifier.start,
+            nameEnd: identifier.end,
+            visibleFrom,
+            assignments: [],
+            references: [identifier],
+            isUpvalue: false,
+            fields: new Map()
+        };
+        if (assignment) {
+            addAssignment(symbol, assignment);
+        }
+        this.current.symbols.push(symbol);
+        return symbol;
+    }
+
+    private globalSymbol(identifier: Identifier): LuaSymbol {
+        let symbol = this.globals.get(identifier.name);
+        if (!symbol) {
+            symbol = {
+                name: identifier.name,
+                kind: 'global',
+                scope: this.root,
+                nameStart: identifier.start,
+                nameEnd: identifier.end,
+                visibleFrom: 0,
+                assignments: [],
+                references: [],
+                isUpvalue: false,
+                fields: new Map()
+            };
+            this.globals.set(identifier.name, symbol);
+        }
+        return symbol;
+    }
+
+    /**
+     * Bind an identifier to the innermost visible declaration, falling back
+     * to a global. Locals captured from an enclosing function are recorded
+     * as upvalues of every function in between.
+     */
+    private bind(identifier: Identifier): LuaSymbol {
+        for (let scope: Scope | null = this.current; scope; scope = scope.parent) {
+            for (let i = scope.symbols.length - 1; i >= 0; i--) {
+                const symbol = scope.symbols[i];
+                if (symbol.name === identifier.name) {
+                    symbol.references.push(identifier);
+                    this.markUpvalue(symbol);
+                    return symbol;
+                }
+            }
+        }
+        const symbol = this.globalSymbol(identifier);
+        symbol.references.push(identifier);
+        return symbol;
+    }
+
+    private markUpvalue(symbol: LuaSymbol) {
+        const owner = functionScopeOf(symbol.scope);
+        let fn = functionScopeOf(this.current);
+        while (fn !== owner && fn.parent) {
+            symbol.isUpvalue = true;
+            if (!fn.upvalues.includes(symbol)) {
+                fn.upvalues.push(symbol);
+            }
+            fn = functionScopeOf(fn.parent);
+        }
+    }
+
+    walkBlock(block: Block) {
+        for (const statement of block.body) {
+            this.walkStatement(statement);
+        }
+    }
+
+    private walkStatement(statement: Statement) {
+        switch (statement.type) {
+            case 'LocalStatement':
+                statement.init.forEach(e => this.walkExpression(e));
+                statement.variables.forEach((variable, i) => {
+                    this.declare(variable, 'local', statement.end, assignmentFor(statement.init, i, statement.start, statement.end, variable));
+                });
+                break;
+
+            case 'AssignmentStatement':
+                statement.init.forEach(e => this.walkExpression(e));
+                statement.variables.forEach((variable, i) => {
+                    if (variable.type === 'Identifier') {
+                        addAssignment(this.bind(variable), assignmentFor(statement.init, i, statement.start, statement.end, variable));
+                        return;
+                    }
+                    const field = this.walkFieldChain(variable);
+                    if (field && variable.type === 'MemberExpression') {
+                        addAssignment(field, assignmentFor(statement.init, i, statement.start, statement.end, variable.identifier));
+                    }
+                });
+                break;
+
+            case 'CallStatement':
+                this.walkExpression(statement.expression);
+                break;
+
+            case 'DoStatement':
+                this.withScope('block', statement.body.start, statement.body.end, () => this.walkBlock(statement.body));
+                break;
+
+            case 'WhileStatement':
+                this.walkExpression(statement.condition);
+                this.withScope('block', statement.body.start, statement.body.end, scope => {
+                    scope.isLoop = true;
+                    this.walkBlock(statement.body);
+                });
+                break;
+
+            case 'RepeatStatement':
+                // The until condition sees the body's locals
+                this.withScope('block', statement.body.start, statement.body.end, scope => {
+                    scope.isLoop = true;
+                    this.walkBlock(statement.body);
+                    this.walkExpression(statement.condition);
+                });
+                break;
+
+            case 'IfStatement':
+                for (const clause of statement.clauses) {
+                    if (clause.condition) {
+                        this.walkExpression(clause.condition);
+                    }
+                    this.withScope('block', clause.body.start, clause.body.end, () => this.walkBlock(clause.body));
+                }
+                break;
+
+            case 'NumericForStatement':
+                this.walkExpression(statement.from);
+                this.walkExpression(statement.to);
+                if (statement.step) {
+                    this.walkExpression(statement.step);
+                }
+                this.withScope('block', statement.body.start, statement.body.end, scope => {
+                    scope.isLoop = true;
+                    this.declare(statement.variable, 'forVariable', statement.body.start, null);
+                    this.walkBlock(statement.body);
+                });
+                break;
+
+            case 'GenericForStatement':
+                statement.iterators.forEach(e => this.walkExpression(e));
+                this.withScope('block', statement.body.start, statement.body.end, scope => {
+                    scope.isLoop = true;
+                    // Each variable receives one value per call of the iterator
+                    const iterator = statement.iterators[0] || null;
+                    statement.variables.forEach((variable, i) => {
+                        this.declare(variable, 'forVariable', statement.body.start, {
+                            start: statement.start, end: statement.body.start, value: iterator, valueIndex: i, target: variable, iterator: true
+                        });
+                    });
+                    this.walkBlock(statement.body);
+                });
+                break;
+
+            case 'FunctionDeclaration': {
+                const name = statement.name;
+                const target = name.type === 'Identifier' ? name : name.identifier;
+                const assignment: SymbolAssignment = { start: statement.start, end: statement.end, value: statement.func, valueIndex: 0, target };
+                if (statement.isLocal && name.type === 'Identifier') {
+                    // Visible from its own name so the function can recurse
+                    this.declare(name, 'local', name.start, assignment);
+                } else if (name.type === 'Identifier') {
+                    addAssignment(this.bind(name), assignment);
+                } else {
+                    // function M.helper() / function M:Method()
+                    const field = this.walkFieldChain(name);
+                    if (field) {
+                        addAssignment(field, assignment);
+                    }
+                }
+                this.walkFunction(statement.func);
+                break;
+            }
+
+            case 'ReturnStatement':
+                statement.arguments.forEach(e => this.walkExpression(e));
+                break;
+
+            case 'BreakStatement':
+            case 'GotoStatement':
+            case 'LabelStatement':
+                break;
+        }
+    }
+
+    private walkFunction(func: FunctionExpression) {
+        this.withScope('function', func.start, func.body.end, () => {
+            for (const parameter of func.parameters) {
+                this.declare(parameter, 'parameter', parameter.start, null);
+            }
+            this.walkBlock(func.body);
+        }, func);
+    }
+
+    /**
+     * Walk a variable or `a.b.c` chain and return what it names: the symbol
+     * for a plain name, the field for a member access rooted at a name, or
+     * null for anything else (calls, indexing, ...).
+     */
+    private walkFieldChain(expression: Expression): LuaSymbol | LuaField | null {
+        if (expression.type === 'Identifier') {
+            return this.bind(expression);
+        }
+        if (expression.type === 'MemberExpression') {
+            const owner = this.walkFieldChain(expression.base);
+            return owner ? fieldOf(owner, expression.identifier) : null;
+        }
+        this.walkExpression(expression);
+        return null;
+    }
+
+    private walkExpression(expression: Expression) {
+        switch (expression.type) {
+            case 'Identifier':
+                this.bind(expression);
+                break;
+            case 'FunctionExpression':
+                this.walkFunction(expression);
+                break;
+            case 'TableConstructor':
+                for (const field of expression.fields) {
+                    if (field.type === 'TableKey') {
+                        this.walkExpression(field.key);
+                    }
+                    this.walkExpression(field.value);
+                }
+                break;
+            case 'BinaryExpression':
+                this.walkExpression(expression.left);
+                this.walkExpression(expression.right);
+                break;
+            case 'UnaryExpression':
+                this.walkExpression(expression.argument);
+                break;
+            case 'MemberExpression':
+                this.walkFieldChain(expression);
+                break;
+            case 'IndexExpression':
+                this.walkExpression(expression.base);
+                this.walkExpression(expression.index);
+                break;
+            case 'CallExpression':
+                this.walkExpression(expression.base);
+                expression.arguments.forEach(e => this.walkExpression(e));
+                break;
+            case 'MethodCallExpression': {
+                const owner = this.walkFieldChain(expression.base);
+                if (owner) {
+                    fieldOf(owner, expression.identifier);
+                }
+                expression.arguments.forEach(e => this.walkExpression(e));
+                break;
+            }
+            case 'ParenExpression':
+                this.walkExpression(expression.expression);
+                break;
+        }
+    }
+}
+
+/**
+ * Build the scope tree for a parsed chunk: blocks, locals, function
+ * parameters, upvalues and the globals the chunk reads or writes.
+ */
+export function buildScopeTree(chunk: Block, annotations: AnnotationIndex = emptyAnnotations()): ScopeTree {
+    const builder = new ScopeBuilder(chunk.end);
+    builder.walkBlock(chunk);
+    return { root: builder.root, globals: builder.globals, annotations };
+}
+
+// ==================== Scope Queries ====================
+
+/**
+ * Find the innermost scope containing an offset
+ */
+export function findScopeAt(tree: ScopeTree, offset: number): Scope {
+    let scope = tree.root;
+    for (;;) {
+        const child = scope.children.find(c => c.start <= offset && offset <= c.end);
+        if (!child) {
+            return scope;
+        }
+        scope = child;
+    }
+}
+
+/**
+ * Resolve a name as Lua would at the given offset: the innermost local
+ * declared before that point, otherwise the global of that name.
+ */
+export function resolveName(tree: ScopeTree, name: string, offset: number): LuaSymbol | null {
+    for (let scope: Scope | null = findScopeAt(tree, offset); scope; scope = scope.parent) {
+        for (let i = scope.symbols.length - 1; i >= 0; i--) {
+            const symbol = scope.symbols[i];
+            if (symbol.name === name && symbol.visibleFrom <= offset) {
+                return symbol;
+            }
+        }
+    }
+    return tree.globals.get(name) || null;
+}
+
+/**
+ * Every name visible at an offset, innermost first: the locals and
+ * parameters in scope (minus shadowed ones), then the globals the chunk
+ * assigns.
+ */
+export function visibleSymbols(tree: ScopeTree, offset: number): LuaSymbol[] {
+    const seen = new Set<string>();
+    const symbols: LuaSymbol[] = [];
+    const add = (symbol: LuaSymbol) => {
+        if (!seen.has(symbol.name)) {
+            seen.add(symbol.name);
+            symbols.push(symbol);
+        }
+    };
+    for (let scope: Scope | null = findScopeAt(tree, offset); scope; scope = scope.parent) {
+        for (let i = scope.symbols.length - 1; i >= 0; i--) {
+            if (scope.symbols[i].visibleFrom <= offset) {
+                add(scope.symbols[i]);
+            }
+        }
+    }
+    for (const symbol of tree.globals.values()) {
+        if (symbol.assignments.length > 0) {
+            add(symbol);
+        }
+    }
+    return symbols;
+}
+
+/**
+ * Find the symbol an identifier occurrence at the given offset is bound to
+ */
+export function findSymbolAt(tree: ScopeTree, offset: number): LuaSymbol | null {
+    const matches = (symbol: LuaSymbol) =>
+        symbol.references.some(ref => ref.start < ref.end && ref.start <= offset && offset <= ref.end);
+
+    const search = (scope: Scope): LuaSymbol | null => {
+        for (const symbol of scope.symbols) {
+            if (matches(symbol)) {
+                return symbol;
+            }
+        }
+        for (const child of scope.children) {
+            const found = search(child);
+            if (found) {
+                return found;
+            }
+        }
+        return null;
+    };
+
+    const local = search(tree.root);
+    if (local) {
+        return local;
+    }
+    for (const symbol of tree.globals.values()) {
+        if (matches(symbol)) {
+            return symbol;
+        }
+    }
+    return null;
+}
+
+/**
+ * A table field together with the symbol its access chain starts from,
+ * e.g. `helper` in `M.util.helper` has owner M and path ['util', 'helper'].
+ */
+export interface FieldMatch {
+    owner: LuaSymbol;
+    path: string[];
+    field: LuaField;
+}
+
+/**
+ * Walk every field reachable from a symbol, depth first
+ */
+export function forEachField(symbol: LuaSymbol, visit: (field: LuaField, path: string[]) => void) {
+    const walk = (fields: Map<string, LuaField>, prefix: string[]) => {
+        for (const field of fields.values()) {
+            const path = [...prefix, field.name];
+            visit(field, path);
+            walk(field.fields, path);
+        }
+    };
+    walk(symbol.fields, []);
+}
+
+/**
+ * Look up a field of a symbol by its path
+ */
+export function getField(symbol: LuaSymbol, path: string[]): LuaField | null {
+    let owner: { fields: Map<string, LuaField> } = symbol;
+    let field: LuaField | undefined;
+    for (const name of path) {
+        field = owner.fields.get(name);
+        if (!field) {
+            return null;
+        }
+        owner = field;
+    }
+    return field || null;
+}
+
+/**
+ * Find the table field a `.name`/`:name` occurrence at the given offset refers to
+ */
+export function findFieldAt(tree: ScopeTree, offset: number): FieldMatch | null {
+    const search = (symbol: LuaSymbol): FieldMatch | null => {
+        let match: FieldMatch | null = null;
+        forEachField(symbol, (field, path) => {
+            if (!match && field.references.some(ref => ref.start < ref.end && ref.start <= offset && offset <= ref.end)) {
+                match = { owner: symbol, path, field };
+            }
+        });
+        return match;
+    };
+
+    const searchScope = (scope: Scope): FieldMatch | null => {
+        for (const symbol of scope.symbols) {
+            const found = search(symbol);
+            if (found) {
+                return found;
+            }
+        }
+        for (const child of scope.children) {
+            const found = searchScope(child);
+            if (found) {
+                return found;
+            }
+        }
+        return null;
+    };
+
+    const local = searchScope(tree.root);
+    if (local) {
+        return local;
+    }
+    for (const symbol of tree.globals.values()) {
+        const found = search(symbol);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
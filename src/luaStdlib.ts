@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiFunction, GlobalCategory, Versioned } from './vectricApi';
+import { isAvailableIn } from './apiVersions';
+
+// ==================== Lua Standard Library ====================
+//
+// The lua-stdlib/*.json files describe Lua's own libraries in the format of
+// the vectric-api globals files. Library functions are named with their
+// table ("string.format"); the basic functions have no table. Their "since"
+// and "removed" fields are Lua versions, and lua-stdlib/index.json records
+// the version Vectric products embed, so functions that version lacks can
+// be left out. Functions the gadget sandbox blocks are marked
+// "unavailableInGadgets".
+
+export interface LuaLibrary extends Versioned {
+    id: string;
+    name: string;
+    table: string | null;       // Global table holding the functions; null for the basic functions
+    description: string;
+    functions: ApiFunction[];
+}
+
+export interface LuaStdlib {
+    runtime: string;            // Lua version of the Vectric runtime
+    libraries: LuaLibrary[];
+}
+
+interface LuaIndex {
+    runtime: string;
+    libraries: Array<{
+        id: string;
+        name: string;
+        table?: string;
+        since?: string;
+        file: string;
+        description: string;
+    }>;
+}
+
+/**
+ * Load the Lua libraries listed in lua-stdlib/index.json, skipping any file
+ * that can't be read
+ */
+export function loadLuaStdlib(extensionPath: string): LuaStdlib {
+    const libraryPath = path.join(extensionPath, 'lua-stdlib');
+    try {
+        const index: LuaIndex = JSON.parse(fs.readFileSync(path.join(libraryPath, 'index.json'), 'utf8'));
+        const libraries: LuaLibrary[] = [];
+        for (const entry of index.libraries) {
+            try {
+                const data: GlobalCategory = JSON.parse(fs.readFileSync(path.join(libraryPath, entry.file), 'utf8'));
+                libraries.push({
+                    id: entry.id,
+                    name: entry.name,
+                    table: entry.table || null,
+                    since: entry.since,
+                    description: entry.description,
+                    functions: Array.isArray(data.functions) ? data.functions : []
+                });
+            } catch (error) {
+                console.error(`Error loading ${entry.file}:`, error);
+            }
+        }
+        console.log(`Loaded ${libraries.length} Lua libraries for Lua ${index.runtime}`);
+        return { runtime: index.runtime, libraries };
+    } catch (error) {
+        console.error('Error loading the Lua standard library:', error);
+        return { runtime: '', libraries: [] };
+    }
+}
+
+/**
+ * Find a library by its global table name ("string", "math", ...)
+ */
+export function findLibrary(stdlib: LuaStdlib, table: string): LuaLibrary | undefined {
+    return stdlib.libraries.find(l => l.table === table);
+}
+
+/**
+ * Find a basic function (table null) or a library function by its short name
+ */
+export function findLibraryFunction(stdlib: LuaStdlib, table: string | null, name: string): ApiFunction | undefined {
+    const library = table === null ? stdlib.libraries.find(l => l.table === null) : findLibrary(stdlib, table);
+    const qualifiedName = table === null ? name : `${table}.${name}`;
+    return library?.functions.find(f => f.name === qualifiedName);
+}
+
+/**
+ * The name a library function is called by without its table ("format" for string.format)
+ */
+export function shortName(fn: ApiFunction): string {
+    return fn.name.substring(fn.name.lastIndexOf('.') + 1);
+}
+
+/**
+ * Check whether the runtime's Lua version has a library or function
+ */
+export function isInRuntime(entry: Versioned, stdlib: LuaStdlib): boolean {
+    return isAvailableIn(entry, stdlib.runtime || null);
+}
+
+/**
+ * "added in Lua 5.3", "removed in Lua 5.2" or both; empty for functions every version has
+ */
+export function describeLuaVersions(entry: Versioned): string {
+    const parts: string[] = [];
+    if (entry.since) {
+        parts.push(`added in Lua ${entry.since}`);
+    }
+    if (entry.removed) {
+        parts.push(`removed in Lua ${entry.removed}`);
+    }
+    return parts.join(', ');
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { GadgetOptions, GadgetPrologue, validateGadgetName, createGadgetScript, createGadgetPage } from './gadgetTemplates';
+
+// ==================== New Gadget Command ====================
+//
+// "Vectric: New Gadget" asks for a name, how main() should check the job and
+// whether the gadget has a dialog, then creates <folder>/<Name>/<Name>.lua
+// (and <Name>.htm) and opens the script.
+
+export const NEW_GADGET_COMMAND = 'vectric.newGadget';
+
+interface PrologueItem extends vscode.QuickPickItem {
+    prologue: GadgetPrologue;
+}
+
+const PROLOGUES: PrologueItem[] = [
+    { label: 'Check for a job and a selection', description: 'Stops when no job is open or nothing is selected, then loops over the selection', prologue: 'selection' },
+    { label: 'Check for a job', description: 'Stops when no job is open', prologue: 'job' },
+    { label: 'Create a job', description: 'Calls CreateNewJob when no job is open', prologue: 'newJob' }
+];
+
+/**
+ * The folder to create the gadget in: the only workspace folder, else the one the user picks
+ */
+async function pickParentFolder(): Promise<vscode.Uri | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 1) {
+        return folders[0].uri;
+    }
+    const picked = await vscode.window.showOpenDialog({
+        canSelectFolders: true,
+        canSelectFiles: false,
+        canSelectMany: false,
+        defaultUri: folders[0]?.uri,
+        openLabel: 'Create Gadget Here'
+    });
+    return picked?.[0];
+}
+
+/**
+ * Ask for the gadget's options; undefined when the user cancels
+ */
+async function askGadgetOptions(): Promise<GadgetOptions | undefined> {
+    const name = await vscode.window.showInputBox({
+        title: 'New Gadget',
+        prompt: 'Gadget name, used for its folder and files',
+        placeHolder: 'My Gadget',
+        validateInput: validateGadgetName
+    });
+    if (name === undefined) {
+        return undefined;
+    }
+    const prologue = await vscode.window.showQuickPick(PROLOGUES, { title: 'New Gadget', placeHolder: 'How should main() start?' });
+    if (!prologue) {
+        return undefined;
+    }
+    const dialog = await vscode.window.showQuickPick(['Yes', 'No'], { title: 'New Gadget', placeHolder: `Create ${name}.htm and show it as a dialog?` });
+    if (!dialog) {
+        return undefined;
+    }
+    return { name, prologue: prologue.prologue, dialog: dialog === 'Yes' };
+}
+
+/**
+ * Create a new gadget folder from the user's answers and open its script
+ */
+export async function newGadget(): Promise<void> {
+    const options = await askGadgetOptions();
+    const parent = options && await pickParentFolder();
+    if (!options || !parent) {
+        return;
+    }
+
+    const folder = vscode.Uri.joinPath(parent, options.name);
+    try {
+        await vscode.workspace.fs.stat(folder);
+        vscode.window.showErrorMessage(`A folder named ${options.name} already exists in ${parent.fsPath}.`);
+        return;
+    } catch {
+        // Doesn't exist yet - carry on
+    }
+
+    const encoder = new TextEncoder();
+    const script = vscode.Uri.joinPath(folder, `${options.name}.lua`);
+    await vscode.workspace.fs.createDirectory(folder);
+    await vscode.workspace.fs.writeFile(script, encoder.encode(createGadgetScript(options)));
+    if (options.dialog) {
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder, `${options.name}.htm`), encoder.encode(createGadgetPage(options)));
+    }
+    console.log(`Created gadget ${options.name} in ${folder.fsPath}`);
+    await vscode.window.showTextDocument(script);
+}
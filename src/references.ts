@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction, findClassByName } from './vectricApi';
+import { Identifier, findMemberAt } from './luaParser';
+import { LUA_KEYWORDS } from './luaLexer';
+import { LuaSymbol, LuaField, Scope, ScopeTree, resolveName, findSymbolAt, findFieldAt, getField } from './luaScope';
+import { getDocumentAnalysis } from './luaDocument';
+import { inferReceiverType } from './typeInference';
+import { WorkspaceFile, fileFromDocument, getWorkspaceFiles } from './workspaceIndex';
+import { isEntryPoint } from './symbols';
+
+// ==================== References and Rename ====================
+//
+// A name is bound to its symbol or table field the way Go to Definition
+// binds it, so a shadowed local never picks up the uses of another. Locals
+// only occur in their own file; globals and the fields of global tables
+// are looked up in every .lua file of the workspace. Renaming is refused
+// for names the gadget doesn't define: Vectric API functions, classes and
+// members, and the entry points Vectric calls by name.
+
+/**
+ * What the name at a position refers to: a symbol, or a field below a symbol
+ */
+interface NameTarget {
+    symbol: LuaSymbol;
+    path: string[];             // Field path below the symbol; empty for the symbol itself
+    identifier: Identifier;     // The occurrence at the position
+}
+
+/**
+ * One use of a target
+ */
+interface Occurrence {
+    file: WorkspaceFile;
+    identifier: Identifier;
+    isDefinition: boolean;      // Declares or assigns the target
+}
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+function findTarget(document: vscode.TextDocument, offset: number): NameTarget | null {
+    const analysis = getDocumentAnalysis(document);
+    const contains = (identifier: Identifier) => identifier.start < identifier.end && identifier.start <= offset && offset <= identifier.end;
+
+    const match = findFieldAt(analysis.scopes, offset);
+    if (match) {
+        const identifier = match.field.references.find(contains)!;
+        return { symbol: match.owner, path: match.path, identifier };
+    }
+    const symbol = findSymbolAt(analysis.scopes, offset);
+    const identifier = symbol ? symbol.references.find(contains) : undefined;
+    return symbol && identifier ? { symbol, path: [], identifier } : null;
+}
+
+/**
+ * Uses of a symbol or field in one file
+ */
+function occurrencesIn(file: WorkspaceFile, owner: LuaSymbol | LuaField): Occurrence[] {
+    const definitions = new Set(owner.assignments.filter(a => a.target).map(a => a.target!.start));
+    if ('nameStart' in owner && owner.kind !== 'global') {
+        definitions.add(owner.nameStart);
+    }
+    return owner.references
+        .filter(identifier => identifier.start < identifier.end)
+        .map(identifier => ({ file, identifier, isDefinition: definitions.has(identifier.start) }));
+}
+
+/**
+ * Every use of a target, in its own file for locals and in every workspace
+ * file for globals and their fields
+ */
+async function findOccurrences(document: vscode.TextDocument, target: NameTarget): Promise<Occurrence[]> {
+    const current = fileFromDocument(document);
+    const ownerIn = (symbol: LuaSymbol | undefined) => symbol && target.path.length > 0 ? getField(symbol, target.path) : symbol;
+
+    const owner = ownerIn(target.symbol);
+    const occurrences = owner ? occurrencesIn(current, owner) : [];
+    if (target.symbol.kind !== 'global') {
+        return occurrences;
+    }
+    for (const file of await getWorkspaceFiles()) {
+        if (file.uri.toString() === current.uri.toString()) {
+            continue;
+        }
+        const other = ownerIn(file.analysis.scopes.globals.get(target.symbol.name));
+        if (other) {
+            occurrences.push(...occurrencesIn(file, other));
+        }
+    }
+    return occurrences;
+}
+
+/**
+ * Find every use of the variable, function or table field at a position
+ */
+export async function findReferences(document: vscode.TextDocument, position: vscode.Position, includeDeclaration: boolean): Promise<vscode.Location[]> {
+    const target = findTarget(document, document.offsetAt(position));
+    if (!target) {
+        return [];
+    }
+    return (await findOccurrences(document, target))
+        .filter(occurrence => includeDeclaration || !occurrence.isDefinition)
+        .map(({ file, identifier }) => new vscode.Location(file.uri, new vscode.Range(file.positionAt(identifier.start), file.positionAt(identifier.end))));
+}
+
+/**
+ * The message for a `.name` or `:name` of a Vectric API class, or null when it isn't one
+ */
+function apiMemberRefusal(document: vscode.TextDocument, offset: number, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
+    const analysis = getDocumentAnalysis(document);
+    const member = findMemberAt(analysis.chunk, offset);
+    const type = member ? inferReceiverType(analysis.scopes, member.base, classes, globalFunctions) : null;
+    if (!member || !type || !findClassByName(classes, type)) {
+        return null;
+    }
+    return `'${member.identifier.name}' is a member of the Vectric API class ${type} and can't be renamed.`;
+}
+
+/**
+ * Why the name at a position can't be renamed, or null when it can
+ */
+async function renameRefusal(document: vscode.TextDocument, offset: number, target: NameTarget | null, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<string | null> {
+    if (!target) {
+        return apiMemberRefusal(document, offset, classes, globalFunctions)
+            || 'Only the gadget\'s own variables, functions and table fields can be renamed.';
+    }
+
+    const name = target.identifier.name;
+    if (target.symbol.kind === 'global' && target.path.length === 0 && isEntryPoint(name)) {
+        return `Vectric calls ${name} by name, so it can't be renamed.`;
+    }
+    const occurrences = await findOccurrences(document, target);
+    if (occurrences.some(occurrence => occurrence.isDefinition)) {
+        return null;
+    }
+    if (target.path.length > 0) {
+        return apiMemberRefusal(document, offset, classes, globalFunctions) || `'${name}' isn't defined in this gadget, so it can't be renamed.`;
+    }
+    if (findClassByName(classes, name) || globalFunctions.some(f => f.name === name)) {
+        return `'${name}' is part of the Vectric API and can't be renamed.`;
+    }
+    return `'${name}' isn't defined in this gadget, so it can't be renamed.`;
+}
+
+/**
+ * Every symbol of a file with the given name, local or global
+ */
+function symbolsNamed(scopes: ScopeTree, name: string): LuaSymbol[] {
+    const symbols: LuaSymbol[] = [];
+    const walk = (scope: Scope) => {
+        symbols.push(...scope.symbols.filter(symbol => symbol.name === name));
+        scope.children.forEach(walk);
+    };
+    walk(scopes.root);
+    const global = scopes.globals.get(name);
+    return global ? [...symbols, global] : symbols;
+}
+
+/**
+ * Why renaming a target to a new name would break the gadget, or null when it wouldn't
+ */
+async function renameConflict(document: vscode.TextDocument, target: NameTarget, newName: string, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<string | null> {
+    if (!IDENTIFIER.test(newName) || LUA_KEYWORDS.has(newName)) {
+        return `'${newName}' is not a valid Lua name.`;
+    }
+    if (target.path.length > 0) {
+        const sibling = await findOccurrences(document, { ...target, path: [...target.path.slice(0, -1), newName] });
+        return sibling.length > 0 ? `The table already has a field named '${newName}'.` : null;
+    }
+    if (findClassByName(classes, newName) || globalFunctions.some(f => f.name === newName)) {
+        return `'${newName}' would hide the Vectric API ${findClassByName(classes, newName) ? 'class' : 'function'} of that name.`;
+    }
+    // Another variable of that name already visible at a use would be hidden
+    for (const occurrence of await findOccurrences(document, target)) {
+        const existing = resolveName(occurrence.file.analysis.scopes, newName, occurrence.identifier.start);
+        if (existing && (existing.kind !== 'global' || existing.assignments.length > 0)) {
+            return `'${newName}' is already defined where '${target.identifier.name}' is used.`;
+        }
+    }
+    // ...and uses of another variable of that name inside a local's scope
+    // would be captured by it, unless declared there and so shadowing it
+    const symbol = target.symbol;
+    if (symbol.kind === 'global') {
+        return null;
+    }
+    const inScope = (offset: number) => offset >= symbol.visibleFrom && offset <= symbol.scope.end;
+    const captured = symbolsNamed(getDocumentAnalysis(document).scopes, newName)
+        .some(other => !(other.kind !== 'global' && inScope(other.nameStart)) && other.references.some(reference => inScope(reference.start)));
+    return captured ? `'${newName}' is used in the scope of '${target.identifier.name}' and would refer to it after the rename.` : null;
+}
+
+/**
+ * The range and current text of a name that can be renamed; throws with the
+ * reason when it can't, which VS Code shows to the user
+ */
+export async function prepareRename(document: vscode.TextDocument, position: vscode.Position, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<{ range: vscode.Range; placeholder: string }> {
+    const offset = document.offsetAt(position);
+    const target = findTarget(document, offset);
+    const refusal = await renameRefusal(document, offset, target, classes, globalFunctions);
+    if (refusal || !target) {
+        throw new Error(refusal || 'This element can\'t be renamed.');
+    }
+    const range = new vscode.Range(document.positionAt(target.identifier.start), document.positionAt(target.identifier.end));
+    return { range, placeholder: target.identifier.name };
+}
+
+/**
+ * Rename every use of the variable, function or table field at a position
+ */
+export async function renameSymbol(document: vscode.TextDocument, position: vscode.Position, newName: string, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<vscode.WorkspaceEdit> {
+    const offset = document.offsetAt(position);
+    const target = findTarget(document, offset);
+    const refusal = await renameRefusal(document, offset, target, classes, globalFunctions)
+        || (target && await renameConflict(document, target, newName, classes, globalFunctions));
+    if (refusal || !target) {
+        throw new Error(refusal || 'This element can\'t be renamed.');
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const { file, identifier } of await findOccurrences(document, target)) {
+        edit.replace(file.uri, new vscode.Range(file.positionAt(identifier.start), file.positionAt(identifier.end)), newName);
+    }
+    return edit;
+}
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction, findClassByName, getClassWithInheritance } from './vectricApi';
+import { Identifier, walkTree } from './luaParser';
+import { LuaSymbol, LuaField, Scope, ScopeTree, forEachField } from './luaScope';
+import { LuaAnalysis, getDocumentAnalysis } from './luaDocument';
+import { inferReceiverType } from './typeInference';
+
+// ==================== Semantic Tokens ====================
+//
+// Colours names by what they refer to. Vectric classes, API functions,
+// methods, properties and constants carry the defaultLibrary modifier, so a
+// theme can set them apart from the gadget's own functions, variables and
+// table fields. Names that resolve to nothing known, such as a misspelled
+// method, get no token and stay plain text.
+
+const TOKEN_TYPES = ['class', 'function', 'method', 'property', 'enumMember', 'variable', 'parameter'];
+const TOKEN_MODIFIERS = ['declaration', 'readonly', 'defaultLibrary'];
+
+export const SEMANTIC_LEGEND = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+export interface SemanticToken {
+    start: number;              // Offset of the name
+    length: number;
+    type: string;               // One of TOKEN_TYPES
+    modifiers: string[];        // Some of TOKEN_MODIFIERS
+}
+
+function isFunctionValue(owner: { assignments: LuaSymbol['assignments'] }): boolean {
+    return owner.assignments.some(a => a.value !== null && a.value.type === 'FunctionExpression');
+}
+
+/**
+ * Every symbol of the document: the locals of each scope, then the globals
+ */
+function allSymbols(scopes: ScopeTree): LuaSymbol[] {
+    const symbols: LuaSymbol[] = [];
+    const walk = (scope: Scope) => {
+        symbols.push(...scope.symbols);
+        scope.children.forEach(walk);
+    };
+    walk(scopes.root);
+    return [...symbols, ...scopes.globals.values()];
+}
+
+/**
+ * Token for a name bound to a symbol: an API class or function when the
+ * gadget never assigns it, else one of the gadget's own
+ */
+function symbolToken(symbol: LuaSymbol, identifier: Identifier, classes: ApiClass[], globalFunctions: ApiFunction[]): SemanticToken | null {
+    const token = (type: string, modifiers: string[] = []) => ({ start: identifier.start, length: identifier.end - identifier.start, type, modifiers });
+
+    if (symbol.kind === 'global' && symbol.assignments.length === 0) {
+        if (findClassByName(classes, symbol.name)) {
+            return token('class', ['defaultLibrary']);
+        }
+        return globalFunctions.some(f => f.name === symbol.name) ? token('function', ['defaultLibrary']) : null;
+    }
+    const modifiers = identifier.start === symbol.nameStart ? ['declaration'] : [];
+    if (isFunctionValue(symbol)) {
+        return token('function', modifiers);
+    }
+    return token(symbol.kind === 'parameter' ? 'parameter' : 'variable', modifiers);
+}
+
+/**
+ * Token for a `.name` or `:name` on an API class: its method, property or constant
+ */
+function apiMemberToken(cls: ApiClass, identifier: Identifier, indexer: '.' | ':'): SemanticToken | null {
+    const name = identifier.name;
+    const token = (type: string, modifiers: string[]) => ({ start: identifier.start, length: name.length, type, modifiers });
+    const method = (cls.methods || []).find(m => m.name === name);
+    const property = (cls.properties || []).find(p => p.name === name);
+    const constant = (cls.constants || []).find(c => c.name === name);
+
+    if (method && (indexer === ':' || (!property && !constant))) {
+        return token('method', ['defaultLibrary']);
+    }
+    if (property) {
+        return token('property', property.readOnly ? ['readonly', 'defaultLibrary'] : ['defaultLibrary']);
+    }
+    return constant ? token('enumMember', ['readonly', 'defaultLibrary']) : null;
+}
+
+/**
+ * Work out the semantic tokens of a parsed document
+ */
+export function collectSemanticTokens(analysis: LuaAnalysis, classes: ApiClass[], globalFunctions: ApiFunction[]): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const scopes = analysis.scopes;
+
+    // Fields of the gadget's own tables, by the offset of each `.name`/`:name`
+    const fields = new Map<number, LuaField>();
+
+    for (const symbol of allSymbols(scopes)) {
+        for (const reference of symbol.references) {
+            // Method functions' implicit self has no text
+            if (reference.start < reference.end) {
+                const token = symbolToken(symbol, reference, classes, globalFunctions);
+                if (token) {
+                    tokens.push(token);
+                }
+            }
+        }
+        forEachField(symbol, field => field.references.forEach(reference => fields.set(reference.start, field)));
+    }
+
+    // A field of the gadget's own tables; false when the name isn't one
+    const fieldToken = (identifier: Identifier, indexer: '.' | ':') => {
+        const field = fields.get(identifier.start);
+        if (!field || field.assignments.length === 0) {
+            return false;
+        }
+        const type = isFunctionValue(field) ? (indexer === ':' ? 'method' : 'function') : 'property';
+        const isDeclaration = field.assignments.some(a => a.target !== null && a.target.start === identifier.start);
+        tokens.push({ start: identifier.start, length: identifier.name.length, type, modifiers: isDeclaration ? ['declaration'] : [] });
+        return true;
+    };
+
+    walkTree(analysis.chunk, node => {
+        if (node.type === 'TableKeyString') {
+            // { name = value }
+            fieldToken(node.key, '.');
+            return;
+        }
+        if (node.type !== 'MemberExpression' && node.type !== 'MethodCallExpression') {
+            return;
+        }
+        const identifier = node.identifier;
+        const indexer = node.type === 'MemberExpression' ? node.indexer : ':';
+        if (fieldToken(identifier, indexer)) {
+            return;
+        }
+        const type = inferReceiverType(scopes, node.base, classes, globalFunctions);
+        const cls = type ? findClassByName(classes, type) : undefined;
+        const token = cls ? apiMemberToken(getClassWithInheritance(cls, classes), identifier, indexer) : null;
+        if (token) {
+            tokens.push(token);
+        }
+    });
+
+    return tokens.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Semantic tokens for a document, encoded against SEMANTIC_LEGEND
+ */
+export function provideSemanticTokens(document: vscode.TextDocument, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.SemanticTokens {
+    const builder = new vscode.SemanticTokensBuilder(SEMANTIC_LEGEND);
+    for (const token of collectSemanticTokens(getDocumentAnalysis(document), classes, globalFunctions)) {
+        const start = document.positionAt(token.start);
+        builder.push(start.line, start.character, token.length, TOKEN_TYPES.indexOf(token.type),
+            token.modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0));
+    }
+    return builder.build();
+}
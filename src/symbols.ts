@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction } from './vectricApi';
+import { Block, Statement, Expression, Identifier, FunctionExpression, TableConstructor } from './luaParser';
+import { findSymbolAt } from './luaScope';
+import { inferSymbolType } from './typeInference';
+import { WorkspaceFile, getWorkspaceFiles } from './workspaceIndex';
+import { LuaAnalysis } from './luaDocument';
+
+// ==================== Document and Workspace Symbols ====================
+//
+// The Outline lists functions (with their locals nested inside), module
+// tables with their fields, and top-level locals and globals. Variables are
+// annotated with their inferred Vectric type where one can be resolved.
+
+interface SymbolCacheEntry {
+    analysis: LuaAnalysis;
+    symbols: vscode.DocumentSymbol[];
+}
+
+// Outline of each workspace file by URI, kept while the file's analysis is
+// the same one. getDocumentAnalysis makes a new analysis for each document
+// version (and the workspace index for each change on disk), so workspace
+// symbol queries only infer types again for files that changed.
+const symbolCache = new Map<string, SymbolCacheEntry>();
+
+// Functions Vectric calls directly: main(script_path) and HTML dialog button handlers
+export function isEntryPoint(name: string): boolean {
+    return name === 'main' || name.startsWith('OnLuaButton_');
+}
+
+/**
+ * Source text of a function name such as `Util.Offset` or `Gadget:Run`
+ */
+export function functionName(name: Expression): string {
+    if (name.type === 'Identifier') {
+        return name.name;
+    }
+    if (name.type === 'MemberExpression') {
+        return `${functionName(name.base)}${name.indexer}${name.identifier.name}`;
+    }
+    return '?';
+}
+
+function parameterList(func: FunctionExpression): string {
+    // Method functions get an implicit, zero-width self parameter
+    const names = func.parameters.filter(p => p.start < p.end).map(p => p.name);
+    if (func.isVararg) {
+        names.push('...');
+    }
+    return `(${names.join(', ')})`;
+}
+
+class SymbolCollector {
+    constructor(
+        private readonly file: WorkspaceFile,
+        private readonly classes: ApiClass[],
+        private readonly globalFunctions: ApiFunction[]
+    ) {}
+
+    private range(node: { start: number; end: number }): vscode.Range {
+        return new vscode.Range(this.file.positionAt(node.start), this.file.positionAt(node.end));
+    }
+
+    private typeOf(identifier: Identifier, offset: number): string {
+        const scopes = this.file.analysis.scopes;
+        const symbol = findSymbolAt(scopes, identifier.start);
+        return symbol ? inferSymbolType(scopes, symbol, offset, this.classes, this.globalFunctions) || '' : '';
+    }
+
+    private functionSymbol(name: string, func: FunctionExpression, node: { start: number; end: number }, selection: Identifier, isMethod: boolean): vscode.DocumentSymbol {
+        const detail = isEntryPoint(name) ? `${parameterList(func)} entry point` : parameterList(func);
+        const kind = isMethod ? vscode.SymbolKind.Method : vscode.SymbolKind.Function;
+        const symbol = new vscode.DocumentSymbol(name, detail, kind, this.range(node), this.range(selection));
+        symbol.children = this.collectBlock(func.body);
+        return symbol;
+    }
+
+    private tableSymbol(name: string, table: TableConstructor, node: { start: number; end: number }, selection: Identifier): vscode.DocumentSymbol {
+        const symbol = new vscode.DocumentSymbol(name, '', vscode.SymbolKind.Module, this.range(node), this.range(selection));
+        for (const field of table.fields) {
+            if (field.type === 'TableKeyString') {
+                symbol.children.push(this.valueSymbol(field.key, field.value, field, vscode.SymbolKind.Field));
+            }
+        }
+        return symbol;
+    }
+
+    /**
+     * Symbol for a name bound to a value: a function, a table or a variable
+     */
+    private valueSymbol(identifier: Identifier, value: Expression | undefined, node: { start: number; end: number }, kind: vscode.SymbolKind): vscode.DocumentSymbol {
+        if (value && value.type === 'FunctionExpression') {
+            return this.functionSymbol(identifier.name, value, node, identifier, kind === vscode.SymbolKind.Field);
+        }
+        if (value && value.type === 'TableConstructor') {
+            return this.tableSymbol(identifier.name, value, node, identifier);
+        }
+        const type = this.typeOf(identifier, node.end);
+        return new vscode.DocumentSymbol(identifier.name, type, kind, this.range(node), this.range(identifier));
+    }
+
+    collectBlock(block: Block, topLevel = false): vscode.DocumentSymbol[] {
+        const symbols: vscode.DocumentSymbol[] = [];
+        for (const statement of block.body) {
+            this.collectStatement(statement, symbols, topLevel);
+        }
+        return symbols;
+    }
+
+    private collectStatement(statement: Statement, symbols: vscode.DocumentSymbol[], topLevel: boolean) {
+        switch (statement.type) {
+            case 'FunctionDeclaration': {
+                const name = statement.name;
+                const selection = name.type === 'Identifier' ? name : name.identifier;
+                symbols.push(this.functionSymbol(functionName(name), statement.func, statement, selection, name.type === 'MemberExpression'));
+                break;
+            }
+
+            case 'LocalStatement':
+                statement.variables.forEach((variable, i) => {
+                    symbols.push(this.valueSymbol(variable, statement.init[i], statement, vscode.SymbolKind.Variable));
+                });
+                break;
+
+            case 'AssignmentStatement':
+                // Only top-level globals are declarations; other writes are just updates
+                if (!topLevel) {
+                    break;
+                }
+                statement.variables.forEach((variable, i) => {
+                    if (variable.type === 'Identifier' && !symbols.some(s => s.name === variable.name)) {
+                        symbols.push(this.valueSymbol(variable, statement.init[i], statement, vscode.SymbolKind.Variable));
+                    }
+                });
+                break;
+
+            // Locals in nested blocks are listed under the enclosing function
+            case 'DoStatement':
+            case 'WhileStatement':
+            case 'RepeatStatement':
+            case 'NumericForStatement':
+            case 'GenericForStatement':
+                if (!topLevel) {
+                    symbols.push(...this.collectBlock(statement.body));
+                }
+                break;
+
+            case 'IfStatement':
+                if (!topLevel) {
+                    statement.clauses.forEach(clause => symbols.push(...this.collectBlock(clause.body)));
+                }
+                break;
+        }
+    }
+}
+
+/**
+ * Build the Outline for one Lua file
+ */
+export function collectDocumentSymbols(file: WorkspaceFile, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.DocumentSymbol[] {
+    return new SymbolCollector(file, classes, globalFunctions).collectBlock(file.analysis.chunk, true);
+}
+
+/**
+ * Outline of a workspace file, reusing the one built for the same analysis
+ */
+function cachedDocumentSymbols(file: WorkspaceFile, classes: ApiClass[], globalFunctions: ApiFunction[]): vscode.DocumentSymbol[] {
+    const key = file.uri.toString();
+    const cached = symbolCache.get(key);
+    if (cached && cached.analysis === file.analysis) {
+        return cached.symbols;
+    }
+    const symbols = collectDocumentSymbols(file, classes, globalFunctions);
+    symbolCache.set(key, { analysis: file.analysis, symbols });
+    return symbols;
+}
+
+/**
+ * Drop the cached outlines, whose types depend on the API (after overlays change)
+ */
+export function forgetWorkspaceSymbols() {
+    symbolCache.clear();
+}
+
+/**
+ * Fuzzy match as Ctrl+T does: the query's characters appear in order
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const lowerName = name.toLowerCase();
+    let index = 0;
+    for (const ch of query.toLowerCase()) {
+        index = lowerName.indexOf(ch, index);
+        if (index < 0) {
+            return false;
+        }
+        index++;
+    }
+    return true;
+}
+
+/**
+ * Find the functions, module tables and top-level variables of every
+ * .lua file in the workspace matching a query
+ */
+export async function collectWorkspaceSymbols(query: string, classes: ApiClass[], globalFunctions: ApiFunction[]): Promise<vscode.SymbolInformation[]> {
+    const results: vscode.SymbolInformation[] = [];
+    const add = (file: WorkspaceFile, symbol: vscode.DocumentSymbol, container: string) => {
+        if (!matchesQuery(symbol.name, query)) {
+            return;
+        }
+        // Workspace symbols have no detail, so the type goes in the name
+        const typed = symbol.kind === vscode.SymbolKind.Variable || symbol.kind === vscode.SymbolKind.Field;
+        const name = typed && symbol.detail ? `${symbol.name} : ${symbol.detail}` : symbol.name;
+        results.push(new vscode.SymbolInformation(name, symbol.kind, container, new vscode.Location(file.uri, symbol.selectionRange)));
+    };
+
+    for (const file of await getWorkspaceFiles()) {
+        for (const symbol of cachedDocumentSymbols(file, classes, globalFunctions)) {
+            add(file, symbol, '');
+            if (symbol.kind === vscode.SymbolKind.Module) {
+                symbol.children.forEach(child => add(file, child, symbol.name));
+            }
+        }
+    }
+    return results;
+}
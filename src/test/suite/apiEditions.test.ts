@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { parseLua } from '../../luaParser';
+import { buildScopeTree } from '../../luaScope';
+import { isAvailableFor, describeEditions, isAspireGuarded } from '../../apiEditions';
+
+suite('API Editions Test Suite', () => {
+
+    // Whether the first GetTransparentHeight call in the source is guarded
+    function guarded(source: string): boolean {
+        const parsed = parseLua(source);
+        const scopes = buildScopeTree(parsed.chunk);
+        return isAspireGuarded(parsed.chunk, scopes, source.indexOf('GetTransparentHeight'));
+    }
+
+    test('Checks availability against the target product', () => {
+        const aspireOnly = { editions: ['Aspire'] };
+
+        assert.strictEqual(isAvailableFor(aspireOnly, 'Aspire'), true);
+        assert.strictEqual(isAvailableFor(aspireOnly, 'VCarve Pro'), false);
+        assert.strictEqual(isAvailableFor(aspireOnly, null), true, 'No target product allows everything');
+        assert.strictEqual(isAvailableFor({}, 'Cut2D'), true, 'Untagged APIs are in every product');
+        assert.strictEqual(describeEditions(aspireOnly), 'Aspire only');
+    });
+
+    test('Calls inside IsAspire() checks are guarded', () => {
+        assert.strictEqual(guarded('if IsAspire() then\n    local h = GetTransparentHeight()\nend'), true);
+        assert.strictEqual(guarded('local job = VectricJob()\nif job.IsAspire then\n    local h = GetTransparentHeight()\nend'), true);
+        assert.strictEqual(guarded('local aspire = IsAspire()\nif aspire and x then\n    local h = GetTransparentHeight()\nend'), true);
+        assert.strictEqual(guarded('if not IsAspire() then\n    MessageBox("Aspire only")\nelse\n    local h = GetTransparentHeight()\nend'), true);
+        assert.strictEqual(guarded('local h = IsAspire() and GetTransparentHeight() or 0'), true);
+    });
+
+    test('Calls after an early return are guarded', () => {
+        assert.strictEqual(guarded('function main()\n    if not IsAspire() then\n        return false\n    end\n    local h = GetTransparentHeight()\nend'), true);
+        assert.strictEqual(guarded('if not IsAspire() then\n    MessageBox("x")\nend\nlocal h = GetTransparentHeight()'), false, 'The if block falls through');
+    });
+
+    test('Unguarded calls are not', () => {
+        assert.strictEqual(guarded('local h = GetTransparentHeight()'), false);
+        assert.strictEqual(guarded('if IsAspire() then\n    MessageBox("x")\nend\nlocal h = GetTransparentHeight()'), false);
+        assert.strictEqual(guarded('if IsAspire() or x then\n    local h = GetTransparentHeight()\nend'), false);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadClasses, loadGlobalFunctions, mergeClasses, mergeFunctions, findClassByName } from '../../vectricApi';
+
+suite('API Overlay Test Suite', () => {
+    const extensionPath = path.join(__dirname, '..', '..', '..');
+    const classes = loadClasses(extensionPath);
+    const globalFunctions = loadGlobalFunctions(extensionPath);
+
+    test('Adds new classes with defaults for missing fields', () => {
+        const merged = mergeClasses(classes, [{
+            name: 'TeamSettings',
+            documentation: 'Settings shared by our gadgets',
+            methods: [{ name: 'Load' }]
+        }]);
+
+        const settings = findClassByName(merged, 'TeamSettings');
+        assert.ok(settings, 'New class should be added');
+        assert.strictEqual(settings!.detail, 'class TeamSettings');
+        assert.strictEqual(settings!.methods![0].signature.label, 'Load()');
+        assert.strictEqual(merged.length, classes.length + 1);
+    });
+
+    test('Patches existing classes member by member', () => {
+        const merged = mergeClasses(classes, [{
+            name: 'Point2D',
+            methods: [{ name: 'Clone', documentation: 'Patched' }, { name: 'Mirror', documentation: 'Added' }]
+        }]);
+
+        const original = findClassByName(classes, 'Point2D')!;
+        const point = findClassByName(merged, 'Point2D')!;
+        const clone = point.methods!.find(m => m.name === 'Clone')!;
+
+        assert.strictEqual(clone.documentation, 'Patched');
+        assert.strictEqual(clone.signature.returns, 'Point2D', 'Fields the overlay leaves out are kept');
+        assert.ok(point.methods!.some(m => m.name === 'Mirror'), 'New member should be added');
+        assert.strictEqual(point.documentation, original.documentation);
+        assert.strictEqual(point.properties!.length, original.properties!.length);
+        assert.strictEqual(original.methods!.find(m => m.name === 'Clone')!.documentation === 'Patched', false, 'Bundled data is not modified');
+    });
+
+    test('Overrides global function signatures and adds new functions', () => {
+        const merged = mergeFunctions(globalFunctions, [
+            { name: 'MessageBox', signature: { label: 'MessageBox(text: string)', documentation: 'Patched', parameters: [{ label: 'text', documentation: 'text: string' }] } },
+            { name: 'MyHelper', documentation: 'Team helper' }
+        ]);
+
+        assert.strictEqual(merged.find(f => f.name === 'MessageBox')!.signature.documentation, 'Patched');
+        assert.strictEqual(merged.find(f => f.name === 'MyHelper')!.kind, 'Function');
+        assert.strictEqual(merged.length, globalFunctions.length + 1);
+    });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { validateApiFiles, validateLuaStdlib } from '../../apiValidation';
+import { ApiSignature, ClassCategory, GlobalCategory } from '../../vectricApi';
+
+suite('API Validation Test Suite', () => {
+    const apiPath = path.join(__dirname, '..', '..', '..', 'vectric-api');
+    let copyPath: string;
+
+    // Copy the shipped API files so a test can break them
+    setup(() => {
+        copyPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vectric-api-'));
+        fs.cpSync(apiPath, copyPath, { recursive: true });
+    });
+
+    teardown(() => {
+        fs.rmSync(copyPath, { recursive: true, force: true });
+    });
+
+    function editJson<T>(file: string, edit: (data: T) => void) {
+        const data: T = JSON.parse(fs.readFileSync(path.join(copyPath, file), 'utf8'));
+        edit(data);
+        fs.writeFileSync(path.join(copyPath, file), JSON.stringify(data, null, 2));
+    }
+
+    test('Shipped API files are valid', () => {
+        const problems = validateApiFiles(apiPath);
+        assert.deepStrictEqual(problems, []);
+    });
+
+    test('Shipped Lua standard library files are valid', () => {
+        const problems = validateLuaStdlib(path.join(apiPath, '..', 'lua-stdlib'), path.join(apiPath, 'schemas'));
+        assert.deepStrictEqual(problems, []);
+    });
+
+    test('Reports schema violations with file and path', () => {
+        editJson<GlobalCategory>('globals_job.json', data => {
+            data.functions[1].kind = 'Func';
+            delete (data.functions[2].signature as Partial<ApiSignature>).parameters;
+        });
+
+        const problems = validateApiFiles(copyPath);
+
+        assert.ok(problems.some(p => p.file === 'globals_job.json' && p.path === 'functions[1].kind'), 'Wrong kind should be reported');
+        assert.ok(problems.some(p => p.file === 'globals_job.json' && p.path === 'functions[2].signature' && p.message.includes('parameters')),
+            'Missing parameters should be reported');
+    });
+
+    test('Reports invalid JSON', () => {
+        fs.writeFileSync(path.join(copyPath, 'classes_vectors.json'), '{ "classes": [');
+
+        const problems = validateApiFiles(copyPath);
+
+        assert.ok(problems.some(p => p.file === 'classes_vectors.json' && p.message.startsWith('Invalid JSON')));
+    });
+
+    test('Reports counts and totals that do not match the files', () => {
+        editJson<ClassCategory>('classes_toolpaths.json', data => data.classes.pop());
+
+        const problems = validateApiFiles(copyPath);
+
+        assert.ok(problems.some(p => p.file === 'index.json' && p.path === 'classes.categories[3].count'), 'Category count should be reported');
+        assert.ok(problems.some(p => p.file === 'index.json' && p.path === 'classes.total_classes'), 'Total should be reported');
+    });
+
+    test('Reports missing and unlisted category files', () => {
+        fs.renameSync(path.join(copyPath, 'globals_job.json'), path.join(copyPath, 'globals_jobs.json'));
+
+        const problems = validateApiFiles(copyPath);
+
+        assert.ok(problems.some(p => p.file === 'index.json' && p.path === 'globals.categories[1].file'), 'Missing file should be reported');
+        assert.ok(problems.some(p => p.file === 'globals_jobs.json' && p.message.includes('Not listed')), 'Unlisted file should be reported');
+    });
+
+    test('Reports types that are not classes or Lua types', () => {
+        editJson<ClassCategory>('classes_toolpaths.json', data => {
+            data.classes[1].methods![0].signature.returns = 'Tools';
+            data.classes[1].properties![0].detail = 'Name?';
+        });
+        editJson<GlobalCategory>('globals_general.json', data => {
+            data.functions[0].signature.label = data.functions[0].signature.label.replace(/\)$/, ', extra: Matrix3D)');
+        });
+
+        const problems = validateApiFiles(copyPath).filter(p => p.message.startsWith('Unknown type'));
+
+        assert.deepStrictEqual(problems.map(p => `${p.file}: ${p.path}: ${p.message}`), [
+            'globals_general.json: functions[0].signature.label: Unknown type "Matrix3D"',
+            'classes_toolpaths.json: classes[1].methods[0].signature.returns: Unknown type "Tools"',
+            'classes_toolpaths.json: classes[1].properties[0].detail: Unknown type "Name"'
+        ]);
+    });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiSet, compareVersions, isAvailableIn, describeVersions, findVersionHeader, loadApiSets, selectApiSet } from '../../apiVersions';
+
+suite('API Versions Test Suite', () => {
+
+    // Fixture API folder with a set for 11.5 next to a bundled 12.5 set
+    const bundled: ApiSet = {
+        version: '12.5',
+        classes: [],
+        globalFunctions: [{
+            name: 'MessageBox', kind: 'Function', detail: '(text: string) → number', documentation: 'Shows a message',
+            signature: { label: 'MessageBox(text: string)', documentation: '', parameters: [{ label: 'text', documentation: '' }] }
+        }]
+    };
+    let apiPath: string;
+
+    setup(() => {
+        apiPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vectric-api-'));
+        fs.mkdirSync(path.join(apiPath, 'versions', '11.5'), { recursive: true });
+        fs.mkdirSync(path.join(apiPath, 'versions', 'latest'));
+        fs.writeFileSync(path.join(apiPath, 'versions', '11.5', 'general.json'), JSON.stringify({
+            functions: [
+                { name: 'MessageBox', detail: '(text: string) → nil', documentation: 'Shows a message (11.5)' },
+                { name: 'FixtureAddedIn12', since: '12.0' }
+            ]
+        }));
+    });
+
+    teardown(() => {
+        fs.rmSync(apiPath, { recursive: true, force: true });
+    });
+
+    test('Compares versions numerically', () => {
+        assert.ok(compareVersions('11.5', '12.0') < 0);
+        assert.ok(compareVersions('12.10', '12.5') > 0);
+        assert.strictEqual(compareVersions('12', '12.0'), 0);
+    });
+
+    test('Checks availability against since and removed', () => {
+        const entry = { since: '11.0', removed: '12.5' };
+
+        assert.strictEqual(isAvailableIn(entry, '10.5'), false);
+        assert.strictEqual(isAvailableIn(entry, '11.0'), true);
+        assert.strictEqual(isAvailableIn(entry, '12.0'), true);
+        assert.strictEqual(isAvailableIn(entry, '12.5'), false, 'Removed in 12.5 means 12.5 no longer has it');
+        assert.strictEqual(isAvailableIn(entry, null), true, 'No target version allows everything');
+        assert.strictEqual(isAvailableIn({}, '9.0'), true, 'Unversioned APIs are always available');
+    });
+
+    test('Describes added and removed versions', () => {
+        assert.strictEqual(describeVersions({ since: '12.0' }), 'added in 12.0');
+        assert.strictEqual(describeVersions({ since: '11.0', removed: '12.5' }), 'added in 11.0, removed in 12.5');
+        assert.strictEqual(describeVersions({}), '');
+    });
+
+    test('Reads the version header from the leading comments only', () => {
+        assert.strictEqual(findVersionHeader('-- My gadget\n-- vectric-api: 11.5\nlocal x = 1'), '11.5');
+        assert.strictEqual(findVersionHeader('\n--vectric-api:12\n'), '12');
+        assert.strictEqual(findVersionHeader('local x = 1\n-- vectric-api: 11.5'), null);
+        assert.strictEqual(findVersionHeader('-- uses vectric-api: 11.5'), null);
+    });
+
+    test('Versioned sets are loaded next to the bundled set, oldest first', () => {
+        const { sets, problems } = loadApiSets(apiPath, bundled);
+
+        assert.deepStrictEqual(sets.map(set => set.version), ['11.5', '12.5']);
+        assert.deepStrictEqual(problems.map(p => p.file), [path.join('versions', 'latest')]);
+
+        const older = sets[0].globalFunctions.find(f => f.name === 'MessageBox')!;
+        assert.strictEqual(older.detail, '(text: string) → nil');
+        assert.strictEqual(older.signature.label, 'MessageBox(text: string)', 'Fields the set leaves out come from the bundled set');
+        assert.strictEqual(bundled.globalFunctions[0].documentation, 'Shows a message', 'The bundled set is not changed');
+
+        const added = sets[0].globalFunctions.find(f => f.name === 'FixtureAddedIn12')!;
+        assert.strictEqual(isAvailableIn(added, '11.5'), false);
+    });
+
+    test('A target uses the oldest set at or after its version', () => {
+        const { sets } = loadApiSets(apiPath, bundled);
+
+        assert.strictEqual(selectApiSet(sets, '11.0').version, '11.5');
+        assert.strictEqual(selectApiSet(sets, '11.5').version, '11.5');
+        assert.strictEqual(selectApiSet(sets, '12.0').version, '12.5');
+        assert.strictEqual(selectApiSet(sets, '13').version, '12.5', 'Newer targets use the newest set');
+        assert.strictEqual(selectApiSet(sets, null).version, '12.5');
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Call Hierarchy Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    const content = `local function AddProfile(name)
+    local tm = ToolpathManager()
+    return tm:RecalculateAllToolpaths()
+end
+
+function main(script_path)
+    local job = CreateNewJob("Tray", nil, 0.75, false, true)
+    AddProfile("Outside")
+    AddProfile("Inside")
+end`;
+
+    async function prepare(position: vscode.Position): Promise<{ doc: vscode.TextDocument; item: vscode.CallHierarchyItem }> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>('vscode.prepareCallHierarchy', doc.uri, position);
+        assert.strictEqual(items.length, 1);
+        return { doc, item: items[0] };
+    }
+
+    test('Outgoing calls include API functions, constructors and methods', async function () {
+        this.timeout(5000);
+
+        const { item } = await prepare(new vscode.Position(5, 11));
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', item);
+
+        assert.deepStrictEqual(calls.map(c => c.to.name), ['CreateNewJob', 'AddProfile']);
+        assert.strictEqual(calls[1].fromRanges.length, 2);
+
+        const helper = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', calls[1].to);
+        assert.deepStrictEqual(helper.map(c => c.to.name), ['ToolpathManager', 'ToolpathManager:RecalculateAllToolpaths']);
+    });
+
+    test('Incoming calls are grouped by the calling function', async function () {
+        this.timeout(5000);
+
+        const { item } = await prepare(new vscode.Position(0, 17));
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item);
+
+        assert.deepStrictEqual(calls.map(c => c.from.name), ['main']);
+        assert.deepStrictEqual(calls[0].fromRanges.map(r => r.start.line), [7, 8]);
+    });
+
+    test('An API method at a call site shows the functions that call it', async function () {
+        this.timeout(5000);
+
+        const { item } = await prepare(new vscode.Position(2, 18));
+        assert.strictEqual(item.name, 'ToolpathManager:RecalculateAllToolpaths');
+
+        const calls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item);
+        assert.deepStrictEqual(calls.map(c => c.from.name), ['AddProfile']);
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Code Actions Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to open a Lua document, wait for its diagnostics and apply the preferred fix for the first one
+    async function applyQuickFix(content: string): Promise<string> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const diagnostic = vscode.languages.getDiagnostics(doc.uri).find(d => d.source === 'vectric');
+        assert.ok(diagnostic, 'Expected a diagnostic');
+
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider', doc.uri, diagnostic.range, vscode.CodeActionKind.QuickFix.value);
+        const fix = actions.find(a => a.isPreferred) || actions[0];
+        assert.ok(fix && fix.edit, 'Expected a quick fix');
+
+        console.log(`[Test] Quick fixes: ${actions.map(a => a.title).join(' | ')}`);
+        await vscode.workspace.applyEdit(fix.edit);
+        return doc.getText();
+    }
+
+    test('Misspelled method is changed to the closest name', async function () {
+        this.timeout(5000);
+
+        const text = await applyQuickFix('local job = VectricJob()\nlocal layer = job.LayerManager:GetLayerWithNam("Cut")');
+
+        assert.ok(text.endsWith('job.LayerManager:GetLayerWithName("Cut")'));
+    });
+
+    test('Property called as a method and method read as a property are swapped', async function () {
+        this.timeout(10000);
+
+        assert.ok((await applyQuickFix('local job = VectricJob()\nlocal n = job.Selection:Count()')).endsWith('job.Selection.Count'));
+        assert.ok((await applyQuickFix('local job = VectricJob()\nlocal pos = job.Selection.GetHeadPosition')).endsWith('job.Selection:GetHeadPosition()'));
+    });
+
+    test('Subclass member offers a cast of the receiver', async function () {
+        this.timeout(5000);
+
+        const text = await applyQuickFix(`local job = VectricJob()
+local object = job.Selection:GetAt(pos)
+local brightness = object.Brightness`);
+
+        assert.ok(text.endsWith('CastCadObjectToCadBitmap(object).Brightness'));
+    });
+
+    test('Selected statements can be wrapped in a job check', async function () {
+        this.timeout(5000);
+
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content: 'function main()\n    MessageBox("Hello")\nend' });
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider', doc.uri, new vscode.Range(1, 0, 2, 0), vscode.CodeActionKind.RefactorRewrite.value);
+        const wrap = actions.find(a => a.title === 'Wrap in \'if job.Exists then\'');
+        assert.ok(wrap && wrap.edit);
+
+        await vscode.workspace.applyEdit(wrap.edit);
+        assert.strictEqual(doc.getText(), 'function main()\n    local job = VectricJob()\n    if job.Exists then\n        MessageBox("Hello")\n    end\nend');
+    });
+
+    test('Wrapping keeps the file\'s line endings', async function () {
+        this.timeout(5000);
+
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content: 'function main()\r\n    MessageBox("a")\r\n    MessageBox("b")\r\nend' });
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider', doc.uri, new vscode.Range(1, 0, 3, 0), vscode.CodeActionKind.RefactorRewrite.value);
+        const wrap = actions.find(a => a.title === 'Wrap in \'if job.Exists then\'');
+        assert.ok(wrap && wrap.edit);
+
+        await vscode.workspace.applyEdit(wrap.edit);
+        assert.strictEqual(doc.getText().replace(/\r\n/g, '').includes('\n'), false, 'Every line should end in CRLF');
+        assert.ok(doc.getText().includes('    if job.Exists then\r\n        MessageBox("a")\r\n'));
+    });
+
+    test('Lines declaring a local used after them are not wrapped', async function () {
+        this.timeout(5000);
+
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content: 'function main()\n    local count = 1\n    MessageBox("a")\n    print(count)\nend' });
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider', doc.uri, new vscode.Range(1, 0, 3, 0), vscode.CodeActionKind.RefactorRewrite.value);
+
+        assert.strictEqual(actions.some(a => a.title.startsWith('Wrap in')), false);
+    });
+});
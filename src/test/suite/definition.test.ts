@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Definition Provider Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get the definitions of the name at an offset
+    async function getDefinitions(content: string, offset: number): Promise<{ doc: vscode.TextDocument; locations: vscode.Location[] }> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        const locations = await vscode.commands.executeCommand<vscode.Location[]>(
+            'vscode.executeDefinitionProvider',
+            doc.uri,
+            doc.positionAt(offset)
+        );
+        return { doc, locations: locations || [] };
+    }
+
+    test('Local function call jumps to its declaration', async function () {
+        this.timeout(5000);
+
+        const content = `local function DrawFrame(job)
+end
+function main(script_path)
+    DrawFrame(VectricJob())
+end`;
+        const { doc, locations } = await getDefinitions(content, content.lastIndexOf('DrawFrame') + 2);
+
+        assert.strictEqual(locations.length, 1);
+        assert.strictEqual(doc.offsetAt(locations[0].range.start), content.indexOf('DrawFrame'));
+    });
+
+    test('Shadowed local resolves to the innermost declaration', async function () {
+        this.timeout(5000);
+
+        const content = `local layer = 1
+do
+    local layer = 2
+    print(layer)
+end`;
+        const { doc, locations } = await getDefinitions(content, content.indexOf('print(layer)') + 7);
+
+        assert.strictEqual(locations.length, 1);
+        assert.strictEqual(doc.offsetAt(locations[0].range.start), content.indexOf('layer = 2'));
+    });
+
+    test('Table field jumps to the field definition', async function () {
+        this.timeout(5000);
+
+        const content = `local Util = {}
+function Util.Offset(contour, distance)
+end
+Util.Offset(nil, 2)`;
+        const { doc, locations } = await getDefinitions(content, content.lastIndexOf('Offset') + 1);
+
+        assert.strictEqual(locations.length, 1);
+        assert.strictEqual(doc.offsetAt(locations[0].range.start), content.indexOf('Offset'));
+    });
+
+    test('API functions have no definition', async function () {
+        this.timeout(5000);
+
+        const { locations } = await getDefinitions('MessageBox("hi")', 2);
+
+        assert.strictEqual(locations.length, 0);
+    });
+});
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+suite('Diagnostics Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to open a Lua document and wait for its diagnostics
+    async function getDiagnostics(content: string): Promise<vscode.Diagnostic[]> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return vscode.languages.getDiagnostics(doc.uri).filter(d => d.source === 'vectric');
+    }
+
+    test('Misspelled method is reported with a suggestion', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics(`local job = VectricJob()
+local layer = job.LayerManager:GetLayerWithNam("Cut")`);
+
+        console.log(`[Test] Diagnostics: ${diagnostics.map(d => d.message).join(' | ')}`);
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'unknown-method');
+        assert.ok(diagnostics[0].message.includes('GetLayerWithName'), 'Should suggest the closest method');
+        assert.strictEqual(diagnostics[0].range.start.line, 1);
+    });
+
+    test('Unknown property is reported', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('local job = VectricJob()\nlocal n = job.Selection.Cont');
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'unknown-property');
+    });
+
+    test('Wrong argument count for function and constructor', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('MessageBox()\nlocal pt = Point2D(1, 2, 3, 4)');
+
+        assert.strictEqual(diagnostics.length, 2);
+        assert.ok(diagnostics.every(d => d.code === 'argument-count'));
+    });
+
+    test('Lua functions the runtime lacks or gadgets may not call are reported', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('local a, b = unpack(list)\nos.execute("dir")\nlocal s = string.format("%d", 1)\nprint("a", "b", 3)');
+
+        assert.deepStrictEqual(diagnostics.map(d => d.code), ['lua-version', 'gadget-sandbox']);
+    });
+
+    test('APIs missing from the targeted version are reported', async function () {
+        this.timeout(10000);
+
+        // Fixture overlay with known versions, applied through the vectric.apiOverlays setting
+        const overlayPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vectric-overlay-')), 'versions.json');
+        fs.writeFileSync(overlayPath, JSON.stringify({
+            functions: [
+                { name: 'FixtureAddedIn13', since: '13.0' },
+                { name: 'FixtureRemovedIn12', removed: '12.0' }
+            ]
+        }));
+        const config = vscode.workspace.getConfiguration('vectric');
+        await config.update('apiOverlays', [overlayPath], vscode.ConfigurationTarget.Global);
+        try {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+            const diagnostics = await getDiagnostics('-- vectric-api: 12.5\nFixtureAddedIn13()\nFixtureRemovedIn12()\nMessageBox("x")');
+
+            assert.deepStrictEqual(diagnostics.map(d => d.code), ['api-version', 'api-version']);
+            assert.deepStrictEqual(diagnostics.map(d => d.range.start.line), [1, 2]);
+        } finally {
+            await config.update('apiOverlays', undefined, vscode.ConfigurationTarget.Global);
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    });
+
+    test('Write to read-only property is reported', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('local job = VectricJob()\njob.Exists = true');
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'readonly-property');
+    });
+
+    test('Valid gadget code produces no diagnostics', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics(`function main(script_path)
+    local job = VectricJob()
+    if not job.Exists then
+        MessageBox("No job loaded")
+        return false
+    end
+    local selection = job.Selection
+    local pos = selection:GetHeadPosition()
+    local obj, next_pos = selection:GetNext(pos)
+    local contour = CastCadObjectToCadContour(obj)
+    local box = contour:GetBoundingBox()
+    print(box.XLength, MaterialBlock.BLC)
+    return true
+end`);
+
+        assert.deepStrictEqual(diagnostics.map(d => d.message), []);
+    });
+
+    test('Members of classes listed without members are not checked', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('local job = VectricJob()\nlocal pos = job.ComponentManager:GetHeadPosition()');
+
+        assert.strictEqual(diagnostics.length, 0);
+    });
+
+    test('Local functions with API names are not checked', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics(`local function MessageBox(a, b, c)
+end
+MessageBox(1, 2, 3)`);
+
+        assert.strictEqual(diagnostics.length, 0);
+    });
+
+    test('Annotated parameter types are checked', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics(`---@param layer CadLayer
+local function Hide(layer)
+    layer:SetColuor(1, 0, 0)
+end`);
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'unknown-method');
+    });
+
+    test('Misspelled annotation type is reported', async function () {
+        this.timeout(5000);
+
+        const diagnostics = await getDiagnostics('---@type CadContur\nlocal contour = nil');
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'unknown-type');
+        assert.ok(diagnostics[0].message.includes('CadContour'));
+    });
+});
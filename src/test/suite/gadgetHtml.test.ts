@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { parseHtmlControls } from '../../gadgetHtml';
+
+suite('Gadget HTML Test Suite', () => {
+
+    test('Finds elements with an id, whatever the quoting', () => {
+        const controls = parseHtmlControls(
+            '<label id="Title">Size</label>\n' +
+            '<input type="text" id=\'Width\' value="10">\n' +
+            '<INPUT TYPE=button class="LuaButton" ID=Apply />\n' +
+            '<select id="Material"></select>'
+        );
+
+        assert.deepStrictEqual(controls.map(c => `${c.id} ${c.tag} ${c.type}`), [
+            'Title label null',
+            'Width input text',
+            'Apply input button',
+            'Material select null'
+        ]);
+    });
+
+    test('Radio groups are found once by name', () => {
+        const controls = parseHtmlControls(
+            '<input type="radio" name="Shape" value="1"><input type="radio" name="Shape" value="2" id="Round">'
+        );
+
+        assert.deepStrictEqual(controls.map(c => c.id), ['Shape', 'Round']);
+    });
+
+    test('Commented-out elements are ignored', () => {
+        const html = '<!-- <input id="Old"> -->\n<input id="New">';
+        const controls = parseHtmlControls(html);
+
+        assert.deepStrictEqual(controls.map(c => c.id), ['New']);
+        assert.strictEqual(controls[0].offset, html.indexOf('<input id="New">'));
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseLua } from '../../luaParser';
+import { parseHtmlControls } from '../../gadgetHtml';
+import { GadgetOptions, GadgetPrologue, GADGET_SNIPPETS, validateGadgetName, createGadgetScript, createGadgetPage, previewSnippet } from '../../gadgetTemplates';
+
+suite('Gadget Templates Test Suite', () => {
+
+    test('Every kind of new gadget script parses and defines main', () => {
+        const prologues: GadgetPrologue[] = ['selection', 'job', 'newJob'];
+        for (const prologue of prologues) {
+            for (const dialog of [false, true]) {
+                const script = createGadgetScript({ name: 'Test Gadget', prologue, dialog });
+                assert.deepStrictEqual(parseLua(script).errors, [], `${prologue}, dialog ${dialog}`);
+                assert.ok(script.includes('function main(script_path)'));
+            }
+        }
+        assert.ok(createGadgetScript({ name: 'Tray', prologue: 'newJob', dialog: false }).includes('CreateNewJob("Tray", bounds'));
+    });
+
+    test('The dialog page has the controls the script names', () => {
+        const options: GadgetOptions = { name: 'Tray', prologue: 'job', dialog: true };
+        const script = createGadgetScript(options);
+        const ids = parseHtmlControls(createGadgetPage(options)).map(c => c.id);
+
+        assert.ok(script.includes('"\\\\Tray.htm"'), 'The script shows the page named after the gadget');
+        for (const match of script.matchAll(/Field\("(\w+)"/g)) {
+            assert.ok(ids.includes(match[1]), `The page has no ${match[1]}`);
+        }
+    });
+
+    test('Gadget names must be usable as file names', () => {
+        assert.strictEqual(validateGadgetName('Box Maker 2'), null);
+        assert.ok(validateGadgetName(''));
+        assert.ok(validateGadgetName('Box/Maker'));
+        assert.ok(validateGadgetName('Box "Maker"'));
+        assert.ok(validateGadgetName(' Box'));
+    });
+
+    test('Snippet previews show the code with default placeholder text', () => {
+        for (const snippet of GADGET_SNIPPETS) {
+            assert.deepStrictEqual(parseLua(previewSnippet(snippet)).errors, [], snippet.prefix);
+        }
+        const dialog = GADGET_SNIPPETS.find(s => s.prefix === 'htmldialog')!;
+        assert.ok(previewSnippet(dialog).includes('"file:" .. script_path .. "\\\\Gadget.htm"'));
+    });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Hover Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get the hover text for the n-th occurrence of a word
+    async function getHoverText(content: string, word: string, occurrence = 0): Promise<string> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        let offset = -1;
+        for (let i = 0; i <= occurrence; i++) {
+            offset = content.indexOf(word, offset + 1);
+        }
+        const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+            'vscode.executeHoverProvider',
+            doc.uri,
+            doc.positionAt(offset + 1)
+        );
+        return (hovers || [])
+            .flatMap(h => h.contents)
+            .map(c => (c instanceof vscode.MarkdownString ? c.value : String(c)))
+            .join('\n');
+    }
+
+    test('Member hover uses the receiver class', async function () {
+        this.timeout(5000);
+
+        const content = `local group = CadObjectGroup()
+print(group.Count)`;
+        const text = await getHoverText(content, 'Count');
+
+        assert.ok(text.includes('CadObjectGroup.Count'), `Expected CadObjectGroup docs, got: ${text}`);
+        assert.ok(!text.includes('SelectionList'));
+    });
+
+    test('Inherited methods are found through the base class', async function () {
+        this.timeout(5000);
+
+        const content = `local contour = CadContour()
+local c = contour:GetContour()`;
+        const text = await getHoverText(content, 'GetContour');
+
+        assert.ok(text.includes('CadObject:GetContour'), `Expected inherited method docs, got: ${text}`);
+    });
+
+    test('Local variables show their inferred type', async function () {
+        this.timeout(5000);
+
+        const content = `local job = VectricJob()
+local layer = job.LayerManager:GetActiveLayer()
+print(layer)`;
+        const text = await getHoverText(content, 'layer', 1);
+
+        assert.ok(text.includes('CadLayer'), `Expected inferred type, got: ${text}`);
+    });
+
+    test('Members of chained receivers are looked up at any depth', async function () {
+        this.timeout(5000);
+
+        const content = `local job = VectricJob()
+local name = job.LayerManager:GetActiveLayer().Name
+if job.LayerManager:GetActiveLayer():GetAt(pos).IsSelected and`;
+
+        const name = await getHoverText(content, 'Name');
+        assert.ok(name.includes('CadLayer.Name'), `Expected CadLayer docs, got: ${name}`);
+
+        // The last line doesn't parse yet, so its receiver is read from the tokens
+        const selected = await getHoverText(content, 'IsSelected');
+        assert.ok(selected.includes('CadObject.IsSelected'), `Expected CadObject docs, got: ${selected}`);
+    });
+
+    test('Fields of user tables do not show API docs', async function () {
+        this.timeout(5000);
+
+        const content = `local Stats = { Count = 0 }
+print(Stats.Count)`;
+        const text = await getHoverText(content, 'Count', 1);
+
+        assert.strictEqual(text, '');
+    });
+
+    test('Second value of GetNext is typed as POSITION', async function () {
+        this.timeout(5000);
+
+        const content = `local job = VectricJob()
+local pos = job.Selection:GetHeadPosition()
+local obj, nextPos = job.Selection:GetNext(pos)
+print(nextPos)`;
+        const text = await getHoverText(content, 'nextPos', 1);
+
+        assert.ok(text.includes('POSITION'), `Expected POSITION, got: ${text}`);
+    });
+
+    test('User functions show their LuaDoc like API functions', async function () {
+        this.timeout(5000);
+
+        const content = `---Finds the first selected vector
+---@param job VectricJob The open job
+---@return CadContour
+local function GetFirst(job)
+end
+GetFirst(nil)`;
+        const text = await getHoverText(content, 'GetFirst', 1);
+
+        assert.ok(text.includes('Finds the first selected vector'), `Expected description, got: ${text}`);
+        assert.ok(text.includes('**Parameters:**') && text.includes('job: VectricJob - The open job'));
+        assert.ok(text.includes('**Returns:** CadContour'));
+    });
+
+    test('Lua library functions show their documentation and Lua versions', async function () {
+        this.timeout(5000);
+
+        const format = await getHoverText('local s = string.format("%d", 1)', 'format');
+        assert.ok(format.includes('string.format(formatstring: string, ...)'), `Expected string.format docs, got: ${format}`);
+
+        const pow = await getHoverText('local n = math.pow(2, 3)', 'pow');
+        assert.ok(pow.includes('Removed in Lua 5.3') && pow.includes('Not available in Lua 5.3'), `Expected version notes, got: ${pow}`);
+    });
+});
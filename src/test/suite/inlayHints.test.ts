@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Inlay Hints Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get the labels of the hints of a whole Lua document
+    async function getHintLabels(content: string): Promise<string[]> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        const range = new vscode.Range(doc.positionAt(0), doc.positionAt(content.length));
+        const hints = await vscode.commands.executeCommand<vscode.InlayHint[]>('vscode.executeInlayHintProvider', doc.uri, range);
+        return (hints || []).map(h => typeof h.label === 'string' ? h.label : h.label.map(part => part.value).join(''));
+    }
+
+    test('Inferred local types are shown after the name', async function () {
+        this.timeout(5000);
+
+        const labels = await getHintLabels(`local job = VectricJob()
+local obj = job.Selection:GetAt(pos)
+local contour = CastCadObjectToCadContour(obj)`);
+
+        assert.ok(labels.includes(': CadObject'), labels.join(' | '));
+        assert.ok(labels.includes(': CadContour'));
+        assert.strictEqual(labels.includes(': VectricJob'), false, 'The constructor already names the class');
+    });
+
+    test('API call arguments are labelled with their parameter names', async function () {
+        this.timeout(5000);
+
+        const labels = await getHintLabels('local bounds = nil\nCreateNewJob("Tray", bounds, 0.75, false, true)');
+
+        assert.deepStrictEqual(labels, ['name:', 'thickness:', 'in_mm:', 'origin_on_surface:']);
+    });
+
+    test('Calls to gadget functions get no parameter names', async function () {
+        this.timeout(5000);
+
+        const labels = await getHintLabels('local function CreateNewJob(a, b)\nend\nCreateNewJob(1, 2)');
+
+        assert.deepStrictEqual(labels, []);
+    });
+});
@@ -0,0 +1,244 @@
+import * as assert from 'assert';
+import { tokenize } from '../../luaLexer';
+import { parseLua, reparseLua, parsePrefixExpressionBefore, SourceEdit } from '../../luaParser';
+import { buildScopeTree, resolveName, findScopeAt, findFieldAt, getField } from '../../luaScope';
+
+suite('Lua Parser Test Suite', () => {
+
+    // Helper to parse source and build its scope tree
+    function analyze(source: string) {
+        const parsed = parseLua(source);
+        return { ...parsed, scopes: buildScopeTree(parsed.chunk) };
+    }
+
+    test('Parses a complete gadget without errors', () => {
+        const source = `function main(script_path)
+    local job = VectricJob()
+    if not job.Exists then
+        MessageBox("No job loaded")
+        return false
+    end
+    local pos = job.Selection:GetHeadPosition()
+    while pos ~= nil do
+        local obj
+        obj, pos = job.Selection:GetNext(pos)
+    end
+    return true
+end`;
+        const result = analyze(source);
+
+        assert.strictEqual(result.errors.length, 0, `Unexpected errors: ${result.errors.map(e => e.message).join(', ')}`);
+        assert.strictEqual(result.chunk.body.length, 1);
+        assert.strictEqual(result.chunk.body[0].type, 'FunctionDeclaration');
+    });
+
+    test('Comments and strings do not produce declarations', () => {
+        const source = `-- local commented = VectricJob()
+--[[ local alsoCommented = 1 ]]
+local s = "local inString = 2"
+`;
+        const result = analyze(source);
+
+        assert.strictEqual(resolveName(result.scopes, 'commented', source.length), null);
+        assert.strictEqual(resolveName(result.scopes, 'alsoCommented', source.length), null);
+        assert.strictEqual(resolveName(result.scopes, 'inString', source.length), null);
+        assert.notStrictEqual(resolveName(result.scopes, 's', source.length), null);
+    });
+
+    test('String escapes are decoded', () => {
+        const strings = tokenize(String.raw`s = "a\tb", "\65\x42\u{43}\u{1F600}", "\x4", "\u{110000}"`).tokens.filter(t => t.type === 'string');
+
+        assert.deepStrictEqual(strings.map(s => s.value), ['a\tb', 'ABC\u{1F600}', 'x4', 'u{110000}']);
+    });
+
+    test('Multi-line statements are parsed as one assignment', () => {
+        const source = `local bounds =
+    Box2D(
+        Point2D(0, 0),
+        Point2D(10, 10)
+    )
+`;
+        const result = analyze(source);
+        const symbol = resolveName(result.scopes, 'bounds', source.length);
+
+        assert.ok(symbol, 'bounds should be declared');
+        assert.strictEqual(symbol!.assignments.length, 1);
+        assert.strictEqual(symbol!.assignments[0].value!.type, 'CallExpression');
+    });
+
+    test('Shadowed locals resolve to the innermost binding', () => {
+        const source = `local job = VectricJob()
+do
+    local job = 42
+    print(job)
+end
+print(job)`;
+        const result = analyze(source);
+        const outer = resolveName(result.scopes, 'job', source.lastIndexOf('job'));
+        const inner = resolveName(result.scopes, 'job', source.indexOf('print(job)') + 6);
+
+        assert.ok(outer && inner);
+        assert.strictEqual(outer!.nameStart, source.indexOf('job'));
+        assert.strictEqual(inner!.nameStart, source.indexOf('job = 42'));
+    });
+
+    test('Locals are not visible inside their own initializer', () => {
+        const source = 'local job = VectricJob()\nlocal job = job.Selection';
+        const result = analyze(source);
+        const symbol = resolveName(result.scopes, 'job', source.lastIndexOf('job.'));
+
+        assert.strictEqual(symbol!.nameStart, source.indexOf('job'));
+    });
+
+    test('Function parameters and method self are declared', () => {
+        const source = `function Helper:Run(job, count)
+    return self, job, count
+end`;
+        const result = analyze(source);
+        const offset = source.indexOf('return');
+
+        assert.strictEqual(resolveName(result.scopes, 'job', offset)!.kind, 'parameter');
+        assert.strictEqual(resolveName(result.scopes, 'count', offset)!.kind, 'parameter');
+        assert.strictEqual(resolveName(result.scopes, 'self', offset)!.kind, 'parameter');
+        assert.strictEqual(resolveName(result.scopes, 'job', source.length), null, 'Parameters end with the function');
+    });
+
+    test('Captured locals are recorded as upvalues', () => {
+        const source = `local layer = nil
+local function visit()
+    return layer
+end`;
+        const result = analyze(source);
+        const fnScope = findScopeAt(result.scopes, source.indexOf('return'));
+
+        assert.strictEqual(fnScope.kind, 'function');
+        assert.deepStrictEqual(fnScope.upvalues.map(s => s.name), ['layer']);
+        assert.strictEqual(fnScope.upvalues[0].isUpvalue, true);
+    });
+
+    test('Multiple assignment records the value index of each target', () => {
+        const source = 'local obj, pos = list:GetNext(pos)';
+        const result = analyze(source);
+
+        assert.strictEqual(resolveName(result.scopes, 'obj', source.length)!.assignments[0].valueIndex, 0);
+        assert.strictEqual(resolveName(result.scopes, 'pos', source.length)!.assignments[0].valueIndex, 1);
+    });
+
+    test('Recovers from an incomplete statement at the cursor', () => {
+        const source = `function main()
+    local job = VectricJob()
+    job.
+end`;
+        const result = analyze(source);
+
+        assert.ok(result.errors.length > 0, 'Incomplete member access should be reported');
+        const symbol = resolveName(result.scopes, 'job', source.indexOf('job.') + 4);
+        assert.ok(symbol, 'job should still be declared');
+        assert.strictEqual(symbol!.kind, 'local');
+    });
+
+    test('Unfinished function still gets a scope up to the end of file', () => {
+        const source = `function main(script_path)
+    local job = VectricJob()
+    `;
+        const result = analyze(source);
+        const scope = findScopeAt(result.scopes, source.length);
+
+        assert.strictEqual(scope.kind, 'function');
+        assert.ok(resolveName(result.scopes, 'job', source.length));
+    });
+
+    test('Table fields record their definitions and uses', () => {
+        const source = `local Util = { scale = 2 }
+function Util.Draw(job)
+end
+Util.layers = {}
+Util.Draw(job)`;
+        const result = analyze(source);
+        const util = resolveName(result.scopes, 'Util', source.length)!;
+
+        assert.deepStrictEqual([...util.fields.keys()], ['scale', 'Draw', 'layers']);
+        const draw = getField(util, ['Draw'])!;
+        assert.strictEqual(draw.assignments.length, 1);
+        assert.strictEqual(draw.assignments[0].target!.start, source.indexOf('Draw'));
+        assert.strictEqual(draw.references.length, 2);
+
+        const match = findFieldAt(result.scopes, source.lastIndexOf('Draw') + 1);
+        assert.ok(match);
+        assert.strictEqual(match!.owner, util);
+        assert.deepStrictEqual(match!.path, ['Draw']);
+    });
+
+    test('Nested and method fields are tracked by path', () => {
+        const source = `Gadget = { options = { depth = 1 } }
+function Gadget:Run() end
+print(Gadget.options.depth)`;
+        const result = analyze(source);
+        const gadget = result.scopes.globals.get('Gadget')!;
+
+        assert.strictEqual(getField(gadget, ['options', 'depth'])!.assignments.length, 1);
+        assert.strictEqual(getField(gadget, ['Run'])!.assignments.length, 1);
+        assert.deepStrictEqual(findFieldAt(result.scopes, source.lastIndexOf('depth'))!.path, ['options', 'depth']);
+    });
+
+    test('Receiver chains are parsed back from the tokens before a member', () => {
+        // The text of the receiver ending just before the trailing '.' or ':'
+        const receiverOf = (source: string) => {
+            const tokens = parseLua(source).tokens;
+            const receiver = parsePrefixExpressionBefore(tokens, tokens.length - 3);
+            return receiver ? source.substring(receiver.start, receiver.end) : null;
+        };
+
+        assert.strictEqual(receiverOf('local l = job.LayerManager:'), 'job.LayerManager');
+        assert.strictEqual(receiverOf('local o = list:GetNext(pos).'), 'list:GetNext(pos)');
+        assert.strictEqual(receiverOf('x = f(a, g(b))[1].c.'), 'f(a, g(b))[1].c');
+        assert.strictEqual(receiverOf('if (job.Selection):'), '(job.Selection)');
+        assert.strictEqual(receiverOf('return a .. b.'), 'b');
+        assert.strictEqual(receiverOf('x = 1 + (2).'), '(2)', 'A grouped expression starts the chain');
+        assert.strictEqual(receiverOf('x = {1, 2}.'), null);
+    });
+    test('Re-parsing an edit gives the same tree as parsing the whole source', () => {
+        const source = `local count = 0
+function main(script_path)
+    local job = VectricJob()
+    count = count + 1
+end
+--[[ notes ]]
+local s = "done"
+print(s)
+`;
+        // Replace `from` with `to` and re-parse only the edited range
+        const edited = (from: string, to: string) => {
+            const previous = parseLua(source);
+            const start = source.indexOf(from);
+            const edit: SourceEdit = { start, oldEnd: start + from.length, newEnd: start + to.length };
+            const text = source.substring(0, start) + to + source.substring(edit.oldEnd);
+            return { previous, result: reparseLua(previous, text, edit), full: parseLua(text) };
+        };
+
+        for (const [from, to] of [
+            ['count + 1', 'count + 10'],
+            ['local job = VectricJob()', 'local job = VectricJob()\n    local extra = job'],
+            ['"done"', '"done" .. s'],
+            ['print(s)\n', ''],
+            ['= 0', '= 0 +']
+        ]) {
+            const { result, full } = edited(from, to);
+            assert.deepStrictEqual(result, full, `After replacing '${from}' with '${to}'`);
+        }
+
+        const { previous, result } = edited('"done"', '"finished"');
+        assert.strictEqual(result.chunk.body[0], previous.chunk.body[0], 'Statements before the edit are reused');
+        assert.strictEqual(result.tokens[0], previous.tokens[0]);
+    });
+
+    test('Edits that swallow the rest of the source fall back to a full parse', () => {
+        const source = 'local a = 1\nlocal b = 2\nlocal c = 3\nlocal d = 4\n';
+        for (const insert of ['function f()\n', '--[[', 'x = [[']) {
+            const start = source.indexOf('local b');
+            const text = source.substring(0, start) + insert + source.substring(start);
+            const result = reparseLua(parseLua(source), text, { start, oldEnd: start, newEnd: start + insert.length });
+            assert.deepStrictEqual(result, parseLua(text), `After inserting '${insert}'`);
+        }
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('References and Rename Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    const content = `function main(script_path)
+    local count = 1
+    do
+        local count = 2
+        print(count)
+    end
+    print(count)
+    local job = VectricJob()
+    local sel = job.Selection
+end`;
+
+    async function openGadget(): Promise<vscode.TextDocument> {
+        return vscode.workspace.openTextDocument({ language: 'lua', content });
+    }
+
+    test('References to a local skip a shadowing local of the same name', async function () {
+        this.timeout(5000);
+
+        const doc = await openGadget();
+        const locations = await vscode.commands.executeCommand<vscode.Location[]>('vscode.executeReferenceProvider', doc.uri, new vscode.Position(1, 12));
+
+        assert.deepStrictEqual((locations || []).map(l => l.range.start.line).sort(), [1, 6]);
+    });
+
+    test('Rename changes every use of the local and nothing else', async function () {
+        this.timeout(5000);
+
+        const doc = await openGadget();
+        const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>('vscode.executeDocumentRenameProvider', doc.uri, new vscode.Position(3, 16), 'inner');
+        const lines = edit.get(doc.uri).map(e => e.range.start.line);
+
+        assert.deepStrictEqual(lines.sort(), [3, 4]);
+    });
+
+    test('Entry points and API members can\'t be renamed', async function () {
+        this.timeout(5000);
+
+        const doc = await openGadget();
+        for (const position of [new vscode.Position(0, 10), new vscode.Position(8, 22), new vscode.Position(7, 20)]) {
+            await assert.rejects(
+                Promise.resolve(vscode.commands.executeCommand('vscode.prepareRename', doc.uri, position)),
+                `Renaming at ${position.line}:${position.character} should be refused`);
+        }
+    });
+});
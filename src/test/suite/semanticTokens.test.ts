@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Semantic Tokens Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get the tokens of a Lua document as "text type.modifier.modifier" strings
+    async function getTokens(content: string): Promise<string[]> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend>('vscode.provideDocumentSemanticTokensLegend', doc.uri);
+        const tokens = await vscode.commands.executeCommand<vscode.SemanticTokens>('vscode.provideDocumentSemanticTokens', doc.uri);
+        if (!legend || !tokens) {
+            return [];
+        }
+
+        const result: string[] = [];
+        let line = 0;
+        let character = 0;
+        for (let i = 0; i < tokens.data.length; i += 5) {
+            const [deltaLine, deltaStart, length, type, modifiers] = tokens.data.slice(i, i + 5);
+            line += deltaLine;
+            character = deltaLine === 0 ? character + deltaStart : deltaStart;
+            const text = doc.getText(new vscode.Range(line, character, line, character + length));
+            const names = legend.tokenModifiers.filter((_, bit) => modifiers & (1 << bit));
+            result.push([text, [legend.tokenTypes[type], ...names].join('.')].join(' '));
+        }
+        return result;
+    }
+
+    test('API classes, functions and members are marked as library names', async function () {
+        this.timeout(5000);
+
+        const tokens = await getTokens(`local job = VectricJob()
+job.Selection:Clear()
+local t = Tool.END_MILL
+MessageBox(job.Name)`);
+
+        assert.ok(tokens.includes('VectricJob class.defaultLibrary'), tokens.join(' | '));
+        assert.ok(tokens.includes('Clear method.defaultLibrary'));
+        assert.ok(tokens.includes('Selection property.readonly.defaultLibrary'));
+        assert.ok(tokens.includes('END_MILL enumMember.readonly.defaultLibrary'));
+        assert.ok(tokens.includes('MessageBox function.defaultLibrary'));
+    });
+
+    test('Gadget symbols are marked without the library modifier', async function () {
+        this.timeout(5000);
+
+        const tokens = await getTokens(`local Util = { scale = 2 }
+function Util.Offset(value)
+    return value * Util.scale
+end`);
+
+        assert.ok(tokens.includes('Util variable.declaration'), tokens.join(' | '));
+        assert.ok(tokens.includes('Offset function.declaration'));
+        assert.ok(tokens.includes('value parameter'));
+        assert.ok(tokens.includes('scale property'));
+    });
+
+    test('Unknown names stay plain text', async function () {
+        this.timeout(5000);
+
+        const tokens = await getTokens('local job = VectricJob()\njob.Selection:Clearr()\nMessageBx("x")');
+
+        assert.ok(!tokens.some(t => t.startsWith('Clearr ') || t.startsWith('MessageBx ')), tokens.join(' | '));
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Signature Help Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get signature help at a specific position
+    async function getSignatureHelp(content: string, position: vscode.Position): Promise<vscode.SignatureHelp | undefined> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        return vscode.commands.executeCommand<vscode.SignatureHelp>(
+            'vscode.executeSignatureHelpProvider',
+            doc.uri,
+            position
+        );
+    }
+
+    test('Global function shows only its own signature', async function () {
+        this.timeout(5000);
+
+        const help = await getSignatureHelp('CreateNewJob("name", ', new vscode.Position(0, 21));
+
+        assert.ok(help, 'Should provide signature help');
+        assert.strictEqual(help!.signatures.length, 1);
+        assert.ok(help!.signatures[0].label.startsWith('CreateNewJob('));
+        assert.strictEqual(help!.activeParameter, 1);
+    });
+
+    test('Innermost call is used for nested calls', async function () {
+        this.timeout(5000);
+
+        const content = 'local t = TranslationMatrix2D(Vector2D(1, ';
+        const help = await getSignatureHelp(content, new vscode.Position(0, content.length));
+
+        assert.ok(help);
+        assert.ok(help!.signatures.every(s => s.label.startsWith('Vector2D(')), 'Should show Vector2D constructors');
+        assert.strictEqual(help!.activeParameter, 1);
+    });
+
+    test('Commas inside nested calls, tables and strings are ignored', async function () {
+        this.timeout(5000);
+
+        const content = 'CreateNewJob("a, b", Box2D(Point2D(0, 0), Point2D(1, 1)), {1, 2}, ';
+        const help = await getSignatureHelp(content, new vscode.Position(0, content.length));
+
+        assert.ok(help);
+        assert.strictEqual(help!.activeParameter, 3);
+    });
+
+    test('Method signature resolved through the receiver type', async function () {
+        this.timeout(5000);
+
+        const content = 'local job = VectricJob()\nlocal sel = job.Selection\nsel:Add(obj, ';
+        const help = await getSignatureHelp(content, new vscode.Position(2, 13));
+
+        assert.ok(help);
+        assert.strictEqual(help!.signatures.length, 1);
+        assert.ok(help!.signatures[0].label.startsWith('Add('));
+        assert.strictEqual(help!.activeParameter, 1);
+    });
+
+    test('Method signature resolved through a chained receiver', async function () {
+        this.timeout(5000);
+
+        const content = 'local job = VectricJob()\njob.LayerManager:GetActiveLayer():SetColour(1, ';
+        const help = await getSignatureHelp(content, new vscode.Position(1, 47));
+
+        assert.ok(help);
+        assert.strictEqual(help!.signatures.length, 1);
+        assert.ok(help!.signatures[0].label.startsWith('SetColour('));
+        assert.strictEqual(help!.activeParameter, 1);
+    });
+
+    test('Constructor overload is picked by argument count', async function () {
+        this.timeout(5000);
+
+        const content = 'local pt = Point2D(1, 2)';
+        const help = await getSignatureHelp(content, new vscode.Position(0, 22));
+
+        assert.ok(help);
+        const active = help!.signatures[help!.activeSignature];
+        assert.strictEqual(active.parameters.length, 2, `Expected the two-argument overload, got ${active.label}`);
+        assert.strictEqual(help!.activeParameter, 1);
+    });
+
+    test('No signature help outside a call', async function () {
+        this.timeout(5000);
+
+        const help = await getSignatureHelp('local x = 1', new vscode.Position(0, 11));
+
+        assert.ok(!help || help.signatures.length === 0);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Symbol Provider Test Suite', () => {
+
+    suiteSetup(async function () {
+        this.timeout(10000);
+
+        const ext = vscode.extensions.getExtension('Dennis Ward.vectricintellisense');
+        if (ext) {
+            await ext.activate();
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    // Helper to get the Outline of a document
+    async function getDocumentSymbols(content: string): Promise<vscode.DocumentSymbol[]> {
+        const doc = await vscode.workspace.openTextDocument({ language: 'lua', content });
+        const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+            'vscode.executeDocumentSymbolProvider',
+            doc.uri
+        );
+        return symbols || [];
+    }
+
+    test('Entry points and helper functions are listed', async function () {
+        this.timeout(5000);
+
+        const symbols = await getDocumentSymbols(`local function DrawFrame(job)
+end
+function main(script_path)
+end
+function OnLuaButton_Apply(dialog)
+end`);
+
+        assert.deepStrictEqual(symbols.map(s => s.name), ['DrawFrame', 'main', 'OnLuaButton_Apply']);
+        assert.ok(symbols.every(s => s.kind === vscode.SymbolKind.Function));
+        assert.ok(symbols[1].detail.includes('script_path'));
+    });
+
+    test('Variables are annotated with their inferred type', async function () {
+        this.timeout(5000);
+
+        const symbols = await getDocumentSymbols(`function main(script_path)
+    local job = VectricJob()
+    local layer = job.LayerManager:GetActiveLayer()
+end`);
+        const locals = symbols[0].children;
+
+        assert.strictEqual(locals.find(s => s.name === 'job')!.detail, 'VectricJob');
+        assert.strictEqual(locals.find(s => s.name === 'layer')!.detail, 'CadLayer');
+    });
+
+    test('Module tables list their fields', async function () {
+        this.timeout(5000);
+
+        const symbols = await getDocumentSymbols(`local Util = { depth = 0.5, Draw = function(job) end }
+function Util.Offset(contour, distance)
+end`);
+
+        assert.strictEqual(symbols[0].kind, vscode.SymbolKind.Module);
+        assert.deepStrictEqual(symbols[0].children.map(s => s.name), ['depth', 'Draw']);
+        assert.strictEqual(symbols[1].name, 'Util.Offset');
+    });
+});
@@ -0,0 +1,426 @@
+import * as vscode from 'vscode';
+import { ApiClass, ApiFunction, ApiMethod, ApiProperty, findClassByName, getClassWithInheritance, isSameOrSubclass } from './vectricApi';
+import { Expression, FunctionExpression, ReturnStatement, walkTree } from './luaParser';
+import { LuaSymbol, LuaField, SymbolAssignment, ScopeTree, resolveName, findScopeAt, getField, visibleSymbols } from './luaScope';
+import { getDocumentAnalysis } from './luaDocument';
+import { annotationClassName } from './luaAnnotations';
+
+// ==================== Type Inference ====================
+//
+// Types are inferred on the scope tree: a name is first resolved to the
+// binding Lua would use at that point (respecting shadowing, parameters and
+// nested blocks), then the type is read off that binding's assignments.
+
+interface InferenceContext {
+    scopes: ScopeTree;
+    classes: ApiClass[];
+    globalFunctions: ApiFunction[];
+    visiting: Set<SymbolAssignment | FunctionExpression>;   // Guards against cycles such as `x = x.Next` and recursion
+}
+
+/**
+ * Return the type name if it is a known class, otherwise null
+ */
+function knownClass(ctx: InferenceContext, typeName: string | undefined): string | null {
+    if (!typeName) {
+        return null;
+    }
+    return findClassByName(ctx.classes, typeName) ? typeName : null;
+}
+
+/**
+ * Class named by a LuaDoc type annotation, if it is a known one
+ */
+function annotatedClass(ctx: InferenceContext, type: string | undefined): string | null {
+    const name = type ? annotationClassName(type) : null;
+    return name ? knownClass(ctx, name) : null;
+}
+
+/**
+ * Pick one entry out of a comma-separated `returns` string
+ */
+function nthReturnType(returns: string | undefined, index: number): string | undefined {
+    if (!returns) {
+        return undefined;
+    }
+    const types = returns.split(',').map(r => r.trim());
+    return types[index];
+}
+
+/**
+ * Assignments made later inside loops that enclose the offset: on the next
+ * iteration they reach the top of the loop body, as `obj, pos =
+ * list:GetNext(pos)` does in a `while pos ~= nil do` loop.
+ */
+function loopCarriedAssignments(ctx: InferenceContext, symbol: LuaSymbol, offset: number): SymbolAssignment[] {
+    const carried: SymbolAssignment[] = [];
+    for (let scope = findScopeAt(ctx.scopes, offset); scope !== symbol.scope && scope.kind === 'block' && scope.parent; scope = scope.parent) {
+        if (scope.isLoop) {
+            carried.push(...symbol.assignments.filter(a => a.start >= offset && a.start < scope.end));
+        }
+    }
+    return carried;
+}
+
+function inferAssignments(ctx: InferenceContext, candidates: SymbolAssignment[]): string | null {
+    for (let i = candidates.length - 1; i >= 0; i--) {
+        const assignment = candidates[i];
+        // ---@type on the assigning statement
+        const annotated = assignment.target ? annotatedClass(ctx, ctx.scopes.annotations.variables.get(assignment.target.start)) : null;
+        if (annotated) {
+            return annotated;
+        }
+        if (!assignment.value || ctx.visiting.has(assignment)) {
+            continue;
+        }
+        ctx.visiting.add(assignment);
+        const type = assignment.iterator
+            ? inferIteratorValue(ctx, assignment.value, assignment.valueIndex)
+            : inferExpression(ctx, assignment.value, assignment.valueIndex);
+        ctx.visiting.delete(assignment);
+        if (type) {
+            return type;
+        }
+    }
+    return null;
+}
+
+/**
+ * Target class of a CastXToY(obj) function, which the API data describes
+ * only by name
+ */
+function castTargetType(ctx: InferenceContext, name: string): string | null {
+    const match = name.match(/^Cast\w+?To(\w+)$/);
+    return match ? knownClass(ctx, match[1]) : null;
+}
+
+/**
+ * Resolve a callee to the gadget symbol or table field it names: `f`, `M.f`
+ * or `M.sub.f` (plus `methodName` for `M:method()`). Returns null for API
+ * globals, which are never assigned in the document.
+ */
+function resolveCallee(ctx: InferenceContext, callee: Expression, methodName?: string): LuaSymbol | LuaField | null {
+    const path: string[] = methodName ? [methodName] : [];
+    let root = callee;
+    while (root.type === 'MemberExpression') {
+        path.unshift(root.identifier.name);
+        root = root.base;
+    }
+    if (root.type !== 'Identifier') {
+        return null;
+    }
+    const symbol = resolveName(ctx.scopes, root.name, root.start);
+    if (!symbol) {
+        return null;
+    }
+    if (path.length > 0) {
+        return getField(symbol, path);
+    }
+    return symbol.kind !== 'global' || symbol.assignments.length > 0 ? symbol : null;
+}
+
+/**
+ * Infer what a gadget-defined function returns from its `return` statements
+ * (not counting those of functions nested inside it)
+ */
+function inferFunctionReturn(ctx: InferenceContext, func: FunctionExpression, returnIndex: number): string | null {
+    if (ctx.visiting.has(func)) {
+        return null;
+    }
+    const doc = ctx.scopes.annotations.functions.get(func);
+    const annotated = doc && doc.returns[returnIndex] ? annotatedClass(ctx, doc.returns[returnIndex].type) : null;
+    if (annotated) {
+        return annotated;
+    }
+    const returns: ReturnStatement[] = [];
+    walkTree(func.body, node => {
+        if (node.type === 'FunctionExpression') {
+            return false;
+        }
+        if (node.type === 'ReturnStatement') {
+            returns.push(node);
+        }
+    });
+
+    ctx.visiting.add(func);
+    let type: string | null = null;
+    for (const statement of returns) {
+        const args = statement.arguments;
+        const last = args.length - 1;
+        if (returnIndex < last) {
+            type = inferExpression(ctx, args[returnIndex]);
+        } else if (last >= 0) {
+            // `return f()` passes on all of f's return values
+            type = inferExpression(ctx, args[last], returnIndex - last);
+        }
+        if (type) {
+            break;
+        }
+    }
+    ctx.visiting.delete(func);
+    return type;
+}
+
+/**
+ * Return type of a call to a function defined in the document, if the
+ * callee is one
+ */
+function inferUserCall(ctx: InferenceContext, callee: LuaSymbol | LuaField, returnIndex: number): string | null {
+    for (let i = callee.assignments.length - 1; i >= 0; i--) {
+        const value = callee.assignments[i].value;
+        if (value && value.type === 'FunctionExpression') {
+            const type = inferFunctionReturn(ctx, value, returnIndex);
+            if (type) {
+                return type;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Vectric calls OnLuaButton_<id>(dialog) with the HTML_Dialog whose button
+ * was pressed, so the first parameter of a button handler is the dialog
+ */
+function inferHandlerParameter(ctx: InferenceContext, symbol: LuaSymbol): string | null {
+    const func = symbol.scope.func;
+    if (!func || func.parameters.length === 0 || func.parameters[0].start !== symbol.nameStart) {
+        return null;
+    }
+    for (const [name, global] of ctx.scopes.globals) {
+        if (name.startsWith('OnLuaButton_') && global.assignments.some(a => a.value === func)) {
+            return knownClass(ctx, 'HTML_Dialog');
+        }
+    }
+    return null;
+}
+
+function inferSymbol(ctx: InferenceContext, symbol: LuaSymbol, offset: number): string | null {
+    // A type annotated on the declaration (---@type, ---@param) always wins
+    if (symbol.kind !== 'global') {
+        const declared = annotatedClass(ctx, ctx.scopes.annotations.variables.get(symbol.nameStart));
+        if (declared) {
+            return declared;
+        }
+    }
+    if (symbol.kind === 'parameter') {
+        const handler = inferHandlerParameter(ctx, symbol);
+        if (handler) {
+            return handler;
+        }
+    }
+    // Most recent assignment before the offset wins. Globals can be assigned
+    // from functions that run in any order, so fall back to any assignment.
+    const before = symbol.assignments.filter(a => a.start < offset);
+    const candidates = symbol.kind === 'global' && before.length === 0 ? symbol.assignments : before;
+    return inferAssignments(ctx, candidates) || inferAssignments(ctx, loopCarriedAssignments(ctx, symbol, offset));
+}
+
+/**
+ * Type of the elements of a table: the first typed value it is built with
+ */
+function inferElementType(ctx: InferenceContext, table: Expression): string | null {
+    if (table.type !== 'Identifier') {
+        return null;
+    }
+    const symbol = resolveName(ctx.scopes, table.name, table.start);
+    for (const assignment of symbol ? symbol.assignments : []) {
+        if (!assignment.value || assignment.value.type !== 'TableConstructor') {
+            continue;
+        }
+        for (const field of assignment.value.fields) {
+            const type = inferExpression(ctx, field.value);
+            if (type) {
+                return type;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Type of the index-th variable of `for k, v in ipairs(t)` / `pairs(t)`
+ */
+function inferIteratorValue(ctx: InferenceContext, iterator: Expression, index: number): string | null {
+    if (index !== 1 || iterator.type !== 'CallExpression' || iterator.base.type !== 'Identifier' || iterator.arguments.length !== 1) {
+        return null;
+    }
+    const name = iterator.base.name;
+    const symbol = resolveName(ctx.scopes, name, iterator.start);
+    if ((name !== 'ipairs' && name !== 'pairs') || (symbol && symbol.kind !== 'global')) {
+        return null;
+    }
+    return inferElementType(ctx, iterator.arguments[0]);
+}
+
+/**
+ * Infer the type of an expression. `returnIndex` picks which of a call's
+ * return values is wanted; other expressions only have a first value.
+ */
+function inferExpression(ctx: InferenceContext, expression: Expression, returnIndex = 0): string | null {
+    if (returnIndex > 0 && expression.type !== 'CallExpression' && expression.type !== 'MethodCallExpression') {
+        return null;
+    }
+    switch (expression.type) {
+        case 'ParenExpression':
+            return inferExpression(ctx, expression.expression);
+
+        case 'Identifier': {
+            const symbol = resolveName(ctx.scopes, expression.name, expression.start);
+            return symbol ? inferSymbol(ctx, symbol, expression.start) : null;
+        }
+
+        case 'CallExpression': {
+            // Functions defined in the document, including table fields such as Util.GetContour
+            const callee = resolveCallee(ctx, expression.base);
+            if (callee) {
+                // A gadget function shadows any API function or class of the same name
+                return inferUserCall(ctx, callee, returnIndex);
+            }
+            if (expression.base.type !== 'Identifier') {
+                return null;
+            }
+            const name = expression.base.name;
+            // Pattern 1/2: ClassName(...) constructor call
+            if (findClassByName(ctx.classes, name)) {
+                return returnIndex === 0 ? name : null;
+            }
+            // Pattern 4: global API function return type
+            const fn = ctx.globalFunctions.find(f => f.name === name);
+            if (fn && fn.signature && fn.signature.returns) {
+                return knownClass(ctx, nthReturnType(fn.signature.returns, returnIndex));
+            }
+            // Pattern 4c: CastCadObjectToCadContour(obj) and friends narrow their argument
+            return fn && returnIndex === 0 ? castTargetType(ctx, name) : null;
+        }
+
+        case 'MethodCallExpression': {
+            // Pattern 4b: object:Method(...) return type
+            const objectType = inferExpression(ctx, expression.base);
+            const cls = objectType ? findClassByName(ctx.classes, objectType) : undefined;
+            if (!cls) {
+                // Util:Method() on a table defined in the document
+                const field = resolveCallee(ctx, expression.base, expression.identifier.name);
+                return field ? inferUserCall(ctx, field, returnIndex) : null;
+            }
+            const method = (getClassWithInheritance(cls, ctx.classes).methods || [])
+                .find(m => m.name === expression.identifier.name);
+            return method && method.signature ? knownClass(ctx, nthReturnType(method.signature.returns, returnIndex)) : null;
+        }
+
+        case 'MemberExpression': {
+            // Pattern 3: object.Property type
+            const objectType = inferExpression(ctx, expression.base);
+            const cls = objectType ? findClassByName(ctx.classes, objectType) : undefined;
+            if (!cls) {
+                return null;
+            }
+            const property = (getClassWithInheritance(cls, ctx.classes).properties || [])
+                .find(p => p.name === expression.identifier.name);
+            return property ? knownClass(ctx, property.detail) : null;
+        }
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Infer the class of an expression node from a parsed document
+ */
+export function inferExpressionType(scopes: ScopeTree, expression: Expression, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
+    return inferExpression({ scopes, classes, globalFunctions, visiting: new Set() }, expression);
+}
+
+/**
+ * Infer the class of the receiver of a member access: the class itself for
+ * static access such as MaterialBlock.BLC, else the inferred type of the
+ * expression, however long the chain (job:GetActiveLayer():GetHeadPosition)
+ */
+export function inferReceiverType(scopes: ScopeTree, base: Expression, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
+    if (base.type === 'Identifier') {
+        const symbol = resolveName(scopes, base.name, base.start);
+        if ((!symbol || (symbol.kind === 'global' && symbol.assignments.length === 0)) && findClassByName(classes, base.name)) {
+            return base.name;
+        }
+    }
+    return inferExpressionType(scopes, base, classes, globalFunctions);
+}
+
+/**
+ * Infer the class of a symbol as seen from the given offset
+ */
+export function inferSymbolType(scopes: ScopeTree, symbol: LuaSymbol, offset: number, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
+    return inferSymbol({ scopes, classes, globalFunctions, visiting: new Set() }, symbol, offset);
+}
+
+/**
+ * A value already in scope that has a wanted type: a variable, one of its
+ * properties, or one of its methods' return values
+ */
+export interface TypedValue {
+    symbol: LuaSymbol;
+    type: string;               // Inferred type of the value
+    property?: ApiProperty;     // symbol.Property
+    method?: ApiMethod;         // symbol:Method(...)
+}
+
+/**
+ * Find the in-scope values usable where a class is expected, e.g. for an
+ * argument of type Box2D
+ */
+export function findValuesOfType(scopes: ScopeTree, offset: number, expectedType: string, classes: ApiClass[], globalFunctions: ApiFunction[]): TypedValue[] {
+    const values: TypedValue[] = [];
+    const matches = (type: string | undefined) => !!type && isSameOrSubclass(type, expectedType, classes);
+
+    for (const symbol of visibleSymbols(scopes, offset)) {
+        const type = inferSymbolType(scopes, symbol, offset, classes, globalFunctions);
+        if (!type) {
+            continue;
+        }
+        if (matches(type)) {
+            values.push({ symbol, type });
+        }
+        const cls = findClassByName(classes, type);
+        if (!cls) {
+            continue;
+        }
+        const full = getClassWithInheritance(cls, classes);
+        for (const property of full.properties || []) {
+            if (matches(property.detail)) {
+                values.push({ symbol, type: property.detail, property });
+            }
+        }
+        for (const method of full.methods || []) {
+            const returns = method.signature ? nthReturnType(method.signature.returns, 0) : undefined;
+            if (returns && matches(returns)) {
+                values.push({ symbol, type: returns, method });
+            }
+        }
+    }
+    return values;
+}
+
+/**
+ * Infer the type of a variable by resolving the binding visible at the
+ * given position and following its assignments
+ */
+export function inferVariableType(document: vscode.TextDocument, position: vscode.Position, varName: string, classes: ApiClass[], globalFunctions: ApiFunction[]): string | null {
+    const analysis = getDocumentAnalysis(document);
+    const offset = document.offsetAt(position);
+    const symbol = resolveName(analysis.scopes, varName, offset);
+    if (!symbol) {
+        return null;
+    }
+    return inferSymbolType(analysis.scopes, symbol, offset, classes, globalFunctions);
+}
+
+/**
+ * Check whether a name at the given position refers to a local variable,
+ * function or parameter rather than a global
+ */
+export function isLocalName(document: vscode.TextDocument, position: vscode.Position, name: string): boolean {
+    const analysis = getDocumentAnalysis(document);
+    const symbol = resolveName(analysis.scopes, name, document.offsetAt(position));
+    return !!symbol && symbol.kind !== 'global';
+}
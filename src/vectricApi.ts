@@ -0,0 +1,401 @@
+// ==================== Vectric API Data ====================
+//
+// Data model for the vectric-api/*.json files, plus loading and lookup
+// helpers shared by every provider.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ==================== Type Definitions ====================
+
+// Versions an API appeared in and disappeared from (see apiVersions.ts)
+export interface Versioned {
+    since?: string;         // First version that has the API
+    removed?: string;       // First version that no longer has it
+}
+
+// Products an API is limited to (see apiEditions.ts); absent means every product
+export interface EditionTagged {
+    editions?: string[];
+}
+
+export interface ApiParameter {
+    label: string;
+    documentation: string;
+    htmlId?: boolean;       // Names a control of the gadget's dialog HTML (see gadgetHtml.ts)
+}
+
+export interface ApiSignature {
+    label: string;
+    documentation: string;
+    parameters: ApiParameter[];
+    returns?: string;
+}
+
+export interface ApiProperty extends Versioned, EditionTagged {
+    name: string;
+    kind: string;
+    detail: string;
+    documentation: string;
+    readOnly: boolean;
+}
+
+export interface ApiMethod extends Versioned, EditionTagged {
+    name: string;
+    kind: string;
+    detail: string;
+    documentation: string;
+    signature: ApiSignature;
+}
+
+export interface ApiConstructor {
+    label: string;
+    documentation: string;
+    parameters: ApiParameter[];
+}
+
+export interface ApiConstant extends Versioned, EditionTagged {
+    name: string;
+    value: string;
+}
+
+export interface ApiClass extends Versioned, EditionTagged {
+    name: string;
+    kind: string;
+    detail: string;
+    documentation: string;
+    constructors?: ApiConstructor[];
+    properties?: ApiProperty[];
+    methods?: ApiMethod[];
+    constants?: ApiConstant[];
+    operators?: string[];
+}
+
+export interface ApiFunction extends Versioned, EditionTagged {
+    name: string;
+    kind: string;
+    detail: string;
+    documentation: string;
+    signature: ApiSignature;
+    unavailableInGadgets?: boolean;     // Lua library function the gadget sandbox blocks (see luaStdlib.ts)
+}
+
+export interface GlobalCategory {
+    version: string;
+    category: string;
+    functions: ApiFunction[];
+}
+
+export interface ClassCategory {
+    version: string;
+    category: string;
+    description: string;
+    classes: ApiClass[];
+}
+
+export interface ApiIndex {
+    version: string;
+    date: string;
+    description: string;
+    globals: {
+        categories: Array<{
+            id: string;
+            name: string;
+            file: string;
+            count: number;
+            description: string;
+        }>;
+        total_functions: number;
+    };
+    classes: {
+        categories: Array<{
+            id: string;
+            name: string;
+            file: string;
+            count: number;
+            description: string;
+        }>;
+        total_classes: number;
+    };
+}
+
+// ==================== API Loading Functions ====================
+
+/**
+ * Read one category file, skipping it (rather than every category) when it
+ * is missing or broken. validateApiFiles reports the details.
+ */
+function readCategory<T>(apiPath: string, file: string): T | null {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(apiPath, file), 'utf8')) as T;
+    } catch (error) {
+        console.error(`Error loading ${file}:`, error);
+        return null;
+    }
+}
+
+/**
+ * The Vectric version the bundled files describe (the "version" of index.json)
+ */
+export function loadBundledVersion(extensionPath: string): string {
+    try {
+        const indexData: ApiIndex = JSON.parse(fs.readFileSync(path.join(extensionPath, 'vectric-api', 'index.json'), 'utf8'));
+        return indexData.version;
+    } catch (error) {
+        console.error('Error loading the API version:', error);
+        return '';
+    }
+}
+
+/**
+ * Load all global functions from categorized JSON files
+ */
+export function loadGlobalFunctions(extensionPath: string): ApiFunction[] {
+    const apiPath = path.join(extensionPath, 'vectric-api');
+    const indexPath = path.join(apiPath, 'index.json');
+    
+    try {
+        const indexData: ApiIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        const allFunctions: ApiFunction[] = [];
+        
+        // Load each global category
+        for (const category of indexData.globals.categories) {
+            const categoryData = readCategory<GlobalCategory>(apiPath, category.file);
+            if (categoryData && Array.isArray(categoryData.functions)) {
+                allFunctions.push(...categoryData.functions);
+            }
+        }
+        
+        console.log(`Loaded ${allFunctions.length} global functions from ${indexData.globals.categories.length} categories`);
+        return allFunctions;
+    } catch (error) {
+        console.error('Error loading global functions:', error);
+        return [];
+    }
+}
+
+/**
+ * Load all classes from categorized JSON files
+ */
+export function loadClasses(extensionPath: string): ApiClass[] {
+    const apiPath = path.join(extensionPath, 'vectric-api');
+    const indexPath = path.join(apiPath, 'index.json');
+    
+    try {
+        const indexData: ApiIndex = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        const allClasses: ApiClass[] = [];
+        
+        // Load each class category
+        for (const category of indexData.classes.categories) {
+            const categoryData = readCategory<ClassCategory>(apiPath, category.file);
+            if (categoryData && Array.isArray(categoryData.classes)) {
+                allClasses.push(...categoryData.classes);
+            }
+        }
+        
+        console.log(`Loaded ${allClasses.length} classes from ${indexData.classes.categories.length} categories`);
+        return allClasses;
+    } catch (error) {
+        console.error('Error loading classes:', error);
+        return [];
+    }
+}
+
+// ==================== Overlay Merging ====================
+//
+// Overlay files have the same shape as the bundled category files. An entry
+// whose name is already known patches it field by field (members are matched
+// by name too), and any other entry is added.
+
+/**
+ * A global function as an overlay file gives it: any field may be left out
+ */
+export type ApiFunctionOverlay = Partial<ApiFunction>;
+
+/**
+ * A class as an overlay file gives it: any field may be left out, and so
+ * may any field of its members
+ */
+export type ApiClassOverlay = Partial<Omit<ApiClass, 'properties' | 'methods' | 'constants'>> & {
+    properties?: Partial<ApiProperty>[];
+    methods?: Partial<ApiMethod>[];
+    constants?: Partial<ApiConstant>[];
+};
+
+/**
+ * Merge named entries: matching names take the overlay's fields, the rest are appended
+ */
+function mergeByName<T extends { name: string }>(base: T[] | undefined, overlay: Partial<T>[] | undefined, complete: (entry: Partial<T>) => T): T[] | undefined {
+    if (!overlay || overlay.length === 0) {
+        return base;
+    }
+    const merged = [...(base || [])];
+    for (const entry of overlay) {
+        const index = merged.findIndex(existing => existing.name === entry.name);
+        if (index >= 0) {
+            merged[index] = { ...merged[index], ...entry };
+        } else {
+            merged.push(complete(entry));
+        }
+    }
+    return merged;
+}
+
+/**
+ * Fill in the fields a new overlay function may leave out
+ */
+function completeFunction(entry: Partial<ApiFunction | ApiMethod>, kind: string): ApiFunction {
+    const name = entry.name || '';
+    const documentation = entry.documentation || '';
+    return {
+        name, kind, detail: '()', documentation,
+        signature: { label: `${name}()`, documentation, parameters: [] },
+        ...entry
+    };
+}
+
+function completeProperty(entry: Partial<ApiProperty>): ApiProperty {
+    return { name: '', kind: 'Property', detail: '', documentation: '', readOnly: false, ...entry };
+}
+
+function completeConstant(entry: Partial<ApiConstant>): ApiConstant {
+    return { name: '', value: '', ...entry };
+}
+
+/**
+ * Apply overlay functions to the bundled global functions
+ */
+export function mergeFunctions(base: ApiFunction[], overlay: ApiFunctionOverlay[]): ApiFunction[] {
+    return mergeByName(base, overlay, entry => completeFunction(entry, 'Function')) || [];
+}
+
+/**
+ * Apply overlay classes to the bundled classes. Constructors given by an
+ * overlay replace the existing ones; operators are combined.
+ */
+export function mergeClasses(base: ApiClass[], overlay: ApiClassOverlay[]): ApiClass[] {
+    const merged = [...base];
+    for (const entry of overlay) {
+        const index = merged.findIndex(cls => cls.name === entry.name);
+        const existing: ApiClass = index >= 0
+            ? merged[index]
+            : { name: entry.name || '', kind: 'Class', detail: `class ${entry.name}`, documentation: '' };
+        const cls: ApiClass = {
+            ...existing,
+            ...entry,
+            properties: mergeByName(existing.properties, entry.properties, completeProperty),
+            methods: mergeByName(existing.methods, entry.methods, method => completeFunction(method, 'Method')),
+            constants: mergeByName(existing.constants, entry.constants, completeConstant),
+            operators: entry.operators ? [...new Set([...(existing.operators || []), ...entry.operators])] : existing.operators
+        };
+        if (index >= 0) {
+            merged[index] = cls;
+        } else {
+            merged.push(cls);
+        }
+    }
+    return merged;
+}
+
+// ==================== Lookup Helpers ====================
+
+/**
+ * Find class by name
+ */
+export function findClassByName(classes: ApiClass[], name: string): ApiClass | undefined {
+    return classes.find(cls => cls.name === name);
+}
+
+/**
+ * Get all members of a class including inherited members from base classes
+ */
+export function getClassWithInheritance(cls: ApiClass, classes: ApiClass[]): ApiClass {
+    // Check if this class extends another class
+    const extendsMatch = cls.detail.match(/extends\s+(\w+)/);
+    if (!extendsMatch) {
+        // No inheritance, return as-is
+        return cls;
+    }
+    
+    const baseClassName = extendsMatch[1];
+    const baseClass = findClassByName(classes, baseClassName);
+    
+    if (!baseClass) {
+        // Base class not found, return as-is
+        return cls;
+    }
+    
+    // Recursively get base class with its inheritance
+    const baseWithInheritance = getClassWithInheritance(baseClass, classes);
+    
+    // Merge properties, methods, and constants
+    return {
+        ...cls,
+        properties: [
+            ...(baseWithInheritance.properties || []),
+            ...(cls.properties || [])
+        ],
+        methods: [
+            ...(baseWithInheritance.methods || []),
+            ...(cls.methods || [])
+        ],
+        constants: [
+            ...(baseWithInheritance.constants || []),
+            ...(cls.constants || [])
+        ]
+    };
+}
+
+/**
+ * Check whether a value of one class can be used where another is expected,
+ * i.e. it is that class or derives from it
+ */
+export function isSameOrSubclass(className: string, expected: string, classes: ApiClass[]): boolean {
+    for (let current = findClassByName(classes, className); current; ) {
+        if (current.name === expected) {
+            return true;
+        }
+        const extendsMatch: RegExpMatchArray | null = current.detail.match(/extends\s+(\w+)/);
+        current = extendsMatch ? findClassByName(classes, extendsMatch[1]) : undefined;
+    }
+    return className === expected;
+}
+
+/**
+ * Find the class in an inheritance chain that declares a member
+ */
+export function findDeclaringClass(cls: ApiClass, classes: ApiClass[], memberName: string): ApiClass {
+    for (let current: ApiClass | undefined = cls; current; ) {
+        const declares = [...(current.methods || []), ...(current.properties || []), ...(current.constants || [])]
+            .some(m => m.name === memberName);
+        if (declares) {
+            return current;
+        }
+        const extendsMatch: RegExpMatchArray | null = current.detail.match(/extends\s+(\w+)/);
+        current = extendsMatch ? findClassByName(classes, extendsMatch[1]) : undefined;
+    }
+    return cls;
+}
+
+/**
+ * Check whether a parameter is optional ("name?: type" in its documentation,
+ * or a trailing "..." taking any number of values)
+ */
+export function isOptionalParameter(param: ApiParameter): boolean {
+    return isVariadicParameter(param) || param.label.endsWith('?') || /^\s*\w+\?\s*:/.test(param.documentation);
+}
+
+/**
+ * Check whether a parameter is "...", which takes any number of values
+ */
+export function isVariadicParameter(param: ApiParameter | undefined): boolean {
+    return !!param && param.label === '...';
+}
+
+/**
+ * Check whether a call with the given number of arguments fits a parameter list
+ */
+export function acceptsArgumentCount(parameters: ApiParameter[], count: number): boolean {
+    const required = parameters.filter(p => !isOptionalParameter(p)).length;
+    return count >= required && (count <= parameters.length || isVariadicParameter(parameters[parameters.length - 1]));
+}
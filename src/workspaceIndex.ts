@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { analyzeLua, getDocumentAnalysis, LuaAnalysis } from './luaDocument';
+
+// ==================== Workspace Index ====================
+//
+// Analyses of every .lua file in the workspace, so lookups can follow a
+// gadget into its helper files. Open documents are read from the editor so
+// unsaved changes are seen; other files are parsed from disk and cached
+// until the file watcher reports a change.
+
+export interface WorkspaceFile {
+    uri: vscode.Uri;
+    analysis: LuaAnalysis;
+    positionAt(offset: number): vscode.Position;
+}
+
+const LUA_FILES = '**/*.lua';
+const EXCLUDED_FILES = '**/node_modules/**';
+
+const fileCache = new Map<string, WorkspaceFile>();
+
+/**
+ * Offsets of the first character of every line, for converting offsets of
+ * files that aren't open in an editor
+ */
+function lineStartsOf(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+function fileFromText(uri: vscode.Uri, text: string): WorkspaceFile {
+    const lineStarts = lineStartsOf(text);
+    return {
+        uri,
+        analysis: analyzeLua(text),
+        positionAt(offset: number) {
+            let line = 0;
+            while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+                line++;
+            }
+            return new vscode.Position(line, offset - lineStarts[line]);
+        }
+    };
+}
+
+/**
+ * Wrap an open document, using its cached analysis
+ */
+export function fileFromDocument(document: vscode.TextDocument): WorkspaceFile {
+    return {
+        uri: document.uri,
+        analysis: getDocumentAnalysis(document),
+        positionAt: offset => document.positionAt(offset)
+    };
+}
+
+async function loadFile(uri: vscode.Uri): Promise<WorkspaceFile | null> {
+    const key = uri.toString();
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === key);
+    if (open) {
+        return fileFromDocument(open);
+    }
+    const cached = fileCache.get(key);
+    if (cached) {
+        return cached;
+    }
+    try {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        const file = fileFromText(uri, text);
+        fileCache.set(key, file);
+        return file;
+    } catch (error) {
+        console.error(`Error reading ${uri.fsPath}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Get the analysis of every .lua file in the workspace
+ */
+export async function getWorkspaceFiles(): Promise<WorkspaceFile[]> {
+    const uris = await vscode.workspace.findFiles(LUA_FILES, EXCLUDED_FILES);
+    const files: WorkspaceFile[] = [];
+    for (const uri of uris) {
+        const file = await loadFile(uri);
+        if (file) {
+            files.push(file);
+        }
+    }
+    return files;
+}
+
+/**
+ * Names of the globals the other files assign, such as helper functions
+ * defined in a util.lua next to the gadget
+ */
+export function globalsDefinedIn(files: WorkspaceFile[], except: vscode.Uri): Set<string> {
+    const names = new Set<string>();
+    for (const file of files) {
+        if (file.uri.toString() === except.toString()) {
+            continue;
+        }
+        for (const symbol of file.analysis.scopes.globals.values()) {
+            if (symbol.assignments.length > 0) {
+                names.add(symbol.name);
+            }
+        }
+    }
+    return names;
+}
+
+/**
+ * Watch the workspace's .lua files and drop cached analyses when they
+ * change on disk
+ */
+export function watchWorkspaceFiles(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(LUA_FILES);
+    const forget = (uri: vscode.Uri) => fileCache.delete(uri.toString());
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(forget),
+        watcher.onDidChange(forget),
+        watcher.onDidDelete(forget)
+    );
+}